@@ -18,6 +18,7 @@ import {
     setRetryAfterHeader,
 } from './header';
 import { getValidations, type Validations } from './validation';
+import { checkCost } from './parseConfig';
 import  MemoryTokenBucketStore  from './token-bucket/memory';
 
 type Configuration = {
@@ -25,9 +26,11 @@ type Configuration = {
     maxTokens: number | ValueDeterminingMiddleware<number>;
 	refillRate: number | undefined;   // for token bucket
     LeakRate : number | undefined;    // for leaky bucket
+    cost: number | ValueDeterminingMiddleware<number>;
     message: any | ValueDeterminingMiddleware<any>;
     statusCode: number;
     standardHeaders: false | DraftHeadersVersion;
+    identifier: string | ValueDeterminingMiddleware<string>;
     requestPropertyName: string;
     skipFailedRequests: boolean;
     skipSuccessfulRequests: boolean;
@@ -137,8 +140,19 @@ const parseOptions = (
         maxTokens: notUndefinedOptions.maxTokens ?? 5,
         refillRate: notUndefinedOptions.refillRate ?? 1,   // for token bucket
         LeakRate : notUndefinedOptions.LeakRate ?? 2,   // for leaky bucket
+        cost: 1,
         message: 'Too many requests, please try again later.',
         statusCode: 429,
+        async identifier(request: Request, response: Response): Promise<string> {
+            // Name the quota policy after the bucket size and refill rate, e.g.
+            // `5-tokens-1-per-sec`.
+            const maxTokens =
+                typeof config.maxTokens === 'function'
+                    ? await config.maxTokens(request, response)
+                    : config.maxTokens;
+
+            return `${maxTokens}-tokens-${config.refillRate ?? 1}-per-sec`;
+        },
         requestPropertyName: 'rateLimit',
         skipFailedRequests: false,
         skipSuccessfulRequests: false,
@@ -190,6 +204,9 @@ const parseOptions = (
         validations,
     };
 
+    // A cost function is checked every time it is called instead
+    if (typeof config.cost !== 'function') checkCost(config.cost);
+
     return config;
 };
 
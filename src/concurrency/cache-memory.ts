@@ -0,0 +1,90 @@
+import scripts from './scripts'
+import type {
+  ConcurrencyStore,
+  ConcurrencyOptions,
+  AcquireResponse,
+  ClientRateLimitInfo
+} from '../types'
+import { Redis as RedisClient } from 'ioredis';
+
+interface RedisStoreOptions {
+  client: RedisClient
+  prefix?: string
+  leaseMs?: number
+}
+
+export default class ConcurrencyRedisStore implements ConcurrencyStore {
+  public client: RedisClient
+  public prefix: string
+  public leaseMs: number
+
+  localKeys = false
+
+  constructor(options: RedisStoreOptions) {
+    this.client = options.client
+    this.prefix = options.prefix ?? 'cl:'
+    this.leaseMs = options.leaseMs ?? 60000 // default 1 minute
+  }
+
+  init(options: ConcurrencyOptions) {
+    this.leaseMs = options.leaseMs
+  }
+
+  private prefixKey(key: string): string {
+    return `${this.prefix}${key}`
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const inFlight = await this.client.eval(
+      scripts.get,
+      1,
+      this.prefixKey(key),
+      Date.now().toString()
+    )
+
+    return { totalHits: Number(inFlight), resetTime: undefined }
+  }
+
+  async acquire(key: string, leaseId: string, limit: number): Promise<AcquireResponse> {
+    const results = await this.client.eval(
+      scripts.acquire,
+      1,
+      this.prefixKey(key),
+      Date.now().toString(),
+      this.leaseMs.toString(),
+      limit.toString(),
+      leaseId
+    )
+
+    if (!Array.isArray(results))
+      throw new TypeError('Expected result to be array of values')
+
+    if (results.length !== 2)
+      throw new Error(`Expected 2 replies, got ${results.length}`)
+
+    return {
+      acquired: Number(results[0]) === 1,
+      inFlight: Number(results[1])
+    }
+  }
+
+  async release(key: string, leaseId: string) {
+    await this.client.zrem(this.prefixKey(key), leaseId)
+  }
+
+  async resetKey(key: string) {
+    await this.client.del(this.prefixKey(key))
+  }
+
+  async resetAll() {
+    // Find all keys with the prefix and delete them
+    const keys = await this.client.keys(`${this.prefix}*`)
+    if (keys.length > 0) {
+      await this.client.del(...keys)
+    }
+  }
+
+  async shutdown() {
+    // For ioredis, typically no special shutdown is needed
+  }
+}
@@ -0,0 +1,200 @@
+import { randomUUID } from 'node:crypto'
+import type { Request, Response, NextFunction } from 'express'
+import type {
+	ConcurrencyOptions,
+	AugmentedRequest,
+	RateLimitRequestHandler,
+	RateLimitInfo,
+	ValueDeterminingMiddleware,
+} from '../types'
+import { handleAsyncErrors } from '../parseConfig'
+import { getValidations } from '../validation'
+import MemoryConcurrencyStore from './memory-concurrency'
+
+/**
+ *
+ * Create an instance of concurrency-limiting middleware for Express.
+ *
+ * Instead of counting requests over time, this limits the number of requests
+ * each client may have in flight at once. A slot is taken when the request
+ * comes in and freed once the response is finished or the connection closes.
+ *
+ * @param passedOptions {ConcurrencyOptions} - Options to configure the concurrency limiter.
+ *
+ * @returns {RateLimitRequestHandler} - The middleware that limits clients based on your configuration.
+ *
+ * @public
+ */
+const concurrencyLimit = (
+	passedOptions?: Partial<ConcurrencyOptions>,
+): RateLimitRequestHandler => {
+	// Passing undefined should be equivalent to not passing an option at all.
+	const notUndefinedOptions = Object.fromEntries(
+		Object.entries(passedOptions ?? {}).filter(([, value]) => value !== undefined),
+	) as Partial<ConcurrencyOptions>
+
+	const validations = getValidations(notUndefinedOptions.validate ?? false)
+	validations.validationsConfig()
+
+	const options: ConcurrencyOptions = {
+		limit: 5,
+		leaseMs: 60 * 1000,
+		message: 'Too many concurrent requests, please try again later.',
+		statusCode: 429,
+		requestPropertyName: 'rateLimit',
+		skip: (_request: Request, _response: Response): boolean => false,
+		keyGenerator(request: Request, _response: Response): string {
+			// Run the validation checks on the IP and headers to make sure everything
+			// is working as intended.
+			validations.ip(request.ip)
+			validations.trustProxy(request)
+			validations.xForwardedForHeader(request)
+
+			// By default, use the IP address to limit users.
+			return request.ip!
+		},
+		async handler(
+			request: Request,
+			response: Response,
+			_next: NextFunction,
+			_optionsUsed: ConcurrencyOptions,
+		): Promise<void> {
+			response.status(options.statusCode)
+			const message: unknown =
+				typeof options.message === 'function'
+					? await (options.message as ValueDeterminingMiddleware<any>)(
+							request,
+							response,
+					  )
+					: options.message
+
+			// Send the response if writable.
+			if (!response.writableEnded) {
+				response.send(message)
+			}
+		},
+		validate: false,
+		passOnStoreError: false,
+		// Allow the default options to be overriden by the options passed to the middleware.
+		...notUndefinedOptions,
+		store: notUndefinedOptions.store ?? new MemoryConcurrencyStore(),
+	}
+
+	// Ensure that the store passed implements the `ConcurrencyStore` interface
+	if (
+		typeof options.store.acquire !== 'function' ||
+		typeof options.store.release !== 'function' ||
+		typeof options.store.resetKey !== 'function'
+	) {
+		throw new TypeError(
+			'An invalid store was passed. Please ensure that the store is a class that implements the `ConcurrencyStore` interface.',
+		)
+	}
+
+	// Call the `init` method on the store, if it exists
+	if (typeof options.store.init === 'function') options.store.init(options)
+
+	const middleware = handleAsyncErrors(
+		async (request: Request, response: Response, next: NextFunction) => {
+			// First check if we should skip the request
+			const skip = await options.skip(request, response)
+			if (skip) {
+				next()
+				return
+			}
+
+			const augmentedRequest = request as AugmentedRequest
+			const key = await options.keyGenerator(request, response)
+
+			// Get the maximum number of requests in flight for each client.
+			const retrieveLimit =
+				typeof options.limit === 'function'
+					? options.limit(request, response)
+					: options.limit
+			const limit = await retrieveLimit
+			validations.limit(limit)
+
+			// Try to take a slot for the request, under a lease of its own.
+			const leaseId = randomUUID()
+			let acquired = false
+			let inFlight = 0
+			try {
+				;({ acquired, inFlight } = await options.store.acquire(
+					key,
+					leaseId,
+					limit,
+				))
+			} catch (error) {
+				if (options.passOnStoreError) {
+					console.error(
+						'express-rate-limit: error from store, allowing request without concurrency limiting.',
+						error,
+					)
+					next()
+					return
+				}
+
+				throw error
+			}
+
+			const info: RateLimitInfo = {
+				limit,
+				used: inFlight,
+				remaining: Math.max(limit - inFlight, 0),
+				resetTime: undefined,
+			}
+			augmentedRequest[options.requestPropertyName] = info
+
+			// Disable the validations, since they should have run at least once by now.
+			validations.disable()
+
+			if (!acquired) {
+				options.handler(request, response, next, options)
+				return
+			}
+
+			// Free the slot as soon as the response is done with, whether it was
+			// sent in full or the connection was dropped.
+			let released = false
+			const releaseSlot = async () => {
+				if (!released) {
+					released = true
+					await options.store.release(key, leaseId)
+				}
+			}
+
+			// The response is already on its way by then, so a store error can
+			// only be logged.
+			const handleError = (error: unknown) => {
+				console.error(
+					'express-rate-limit: error from store, could not release the concurrency slot.',
+					error,
+				)
+			}
+
+			response.on('finish', () => void releaseSlot().catch(handleError))
+			response.on('close', () => void releaseSlot().catch(handleError))
+			response.on('error', () => void releaseSlot().catch(handleError))
+
+			next()
+		},
+	)
+
+	const getThrowFn = () => {
+		throw new Error('The current store does not support the get/getKey method')
+	}
+
+	// Export the store's function to reset and fetch the in-flight count for a
+	// client based on their identifier.
+	;(middleware as RateLimitRequestHandler).resetKey =
+		options.store.resetKey.bind(options.store)
+	;(middleware as RateLimitRequestHandler).getKey =
+		typeof options.store.get === 'function'
+			? options.store.get.bind(options.store)
+			: getThrowFn
+
+	return middleware as RateLimitRequestHandler
+}
+
+// Export it to the world!
+export default concurrencyLimit
@@ -0,0 +1,179 @@
+import type {
+	ConcurrencyStore,
+	ConcurrencyOptions,
+	AcquireResponse,
+	ClientRateLimitInfo,
+} from '../types'
+
+/**
+ * A `ConcurrencyStore` that keeps the leases held by each client in memory.
+ *
+ * @public
+ */
+export default class MemoryConcurrencyStore implements ConcurrencyStore {
+	/**
+	 * How long a slot is held before it is freed even if it was never released
+	 * (in milliseconds).
+	 */
+	leaseMs!: number
+
+	/**
+	 * The expiry time of every lease held by each client, by lease id.
+	 */
+	leases = new Map<string, Map<string, number>>()
+
+	/**
+	 * A reference to the active timer.
+	 */
+	interval?: NodeJS.Timeout
+
+	/**
+	 * Confirmation that the keys incremented in once instance of MemoryStore
+	 * cannot affect other instances.
+	 */
+	localKeys = true
+
+	/**
+	 * Method that initializes the store.
+	 *
+	 * @param options {ConcurrencyOptions} - The options used to setup the middleware.
+	 */
+	init(options: ConcurrencyOptions): void {
+		this.leaseMs = options.leaseMs
+
+		// Indicates that init was called more than once.
+		// Could happen if a store was shared between multiple instances.
+		if (this.interval) clearInterval(this.interval)
+
+		// Drop the leases that have expired every `leaseMs`.
+		this.interval = setInterval(() => {
+			this.clearExpired()
+		}, this.leaseMs)
+
+		// Cleaning up the interval will be taken care of by the `shutdown` method.
+		if (this.interval.unref) this.interval.unref()
+	}
+
+	/**
+	 * Method to fetch the number of requests a client has in flight.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 *
+	 * @returns {ClientRateLimitInfo | undefined} - The number of requests in flight for that client.
+	 *
+	 * @public
+	 */
+	async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+		const leases = this.leases.get(key)
+		if (!leases) return undefined
+
+		return {
+			totalHits: this.dropExpired(leases).size,
+			resetTime: undefined,
+		}
+	}
+
+	/**
+	 * Method to take a slot for a request, if the client has one free.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 * @param leaseId {string} - The identifier for the request taking the slot.
+	 * @param limit {number} - The maximum number of requests in flight.
+	 *
+	 * @returns {AcquireResponse} - Whether the slot was taken, and the number of requests in flight.
+	 *
+	 * @public
+	 */
+	async acquire(
+		key: string,
+		leaseId: string,
+		limit: number,
+	): Promise<AcquireResponse> {
+		const now = Date.now()
+		const leases = this.dropExpired(this.leases.get(key) ?? new Map(), now)
+		this.leases.set(key, leases)
+
+		if (leases.size >= limit) return { acquired: false, inFlight: leases.size }
+
+		leases.set(leaseId, now + this.leaseMs)
+		return { acquired: true, inFlight: leases.size }
+	}
+
+	/**
+	 * Method to free the slot held by a request.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 * @param leaseId {string} - The identifier for the request holding the slot.
+	 *
+	 * @public
+	 */
+	async release(key: string, leaseId: string): Promise<void> {
+		const leases = this.leases.get(key)
+		if (!leases) return
+
+		leases.delete(leaseId)
+		if (leases.size === 0) this.leases.delete(key)
+	}
+
+	/**
+	 * Method to free every slot held by a client.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 *
+	 * @public
+	 */
+	async resetKey(key: string): Promise<void> {
+		this.leases.delete(key)
+	}
+
+	/**
+	 * Method to free everyone's slots.
+	 *
+	 * @public
+	 */
+	async resetAll(): Promise<void> {
+		this.leases.clear()
+	}
+
+	/**
+	 * Method to stop the timer (if currently running) and prevent any memory
+	 * leaks.
+	 *
+	 * @public
+	 */
+	shutdown(): void {
+		clearInterval(this.interval)
+		void this.resetAll()
+	}
+
+	/**
+	 * Removes the expired leases from a client's leases.
+	 *
+	 * @param leases {Map<string, number>} - The leases of a client.
+	 * @param now {number} - The current time.
+	 *
+	 * @returns {Map<string, number>} - The same leases, to allow for chaining.
+	 */
+	private dropExpired(
+		leases: Map<string, number>,
+		now = Date.now(),
+	): Map<string, number> {
+		for (const [leaseId, expiry] of leases) {
+			if (expiry <= now) leases.delete(leaseId)
+		}
+
+		return leases
+	}
+
+	/**
+	 * Removes the expired leases, and the clients left without any.
+	 *
+	 * This function is called every `leaseMs`.
+	 */
+	private clearExpired(): void {
+		const now = Date.now()
+		for (const [key, leases] of this.leases) {
+			if (this.dropExpired(leases, now).size === 0) this.leases.delete(key)
+		}
+	}
+}
@@ -0,0 +1,51 @@
+const scripts = {
+    /**
+     * Acquire script for concurrency limiting.
+     *
+     * Parameters:
+     * - KEYS[1]: the concurrency key (a sorted set of lease ids scored by expiry)
+     * - ARGV[1]: current timestamp in milliseconds
+     * - ARGV[2]: lease duration in milliseconds
+     * - ARGV[3]: maximum number of requests in flight
+     * - ARGV[4]: the lease id of the request
+     */
+    acquire: `
+      local now = tonumber(ARGV[1])
+      local leaseMs = tonumber(ARGV[2])
+      local limit = tonumber(ARGV[3])
+
+      -- Free the slots whose lease has expired
+      redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now)
+
+      local inFlight = redis.call("ZCARD", KEYS[1])
+      if inFlight >= limit then
+          return {0, inFlight}
+      end
+
+      -- Take a slot and keep the set alive for as long as the newest lease
+      redis.call("ZADD", KEYS[1], now + leaseMs, ARGV[4])
+      redis.call("PEXPIRE", KEYS[1], leaseMs)
+
+      return {1, inFlight + 1}
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim(),
+
+    /**
+     * Get script for retrieving the number of requests in flight.
+     *
+     * Parameters:
+     * - KEYS[1]: the concurrency key
+     * - ARGV[1]: current timestamp in milliseconds
+     */
+    get: `
+      redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", tonumber(ARGV[1]))
+
+      return redis.call("ZCARD", KEYS[1])
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim()
+  }
+
+  // Export scripts for use in Redis store implementation
+  export default scripts
@@ -1,5 +1,5 @@
 import scripts from '../fixed-window/scripts'
-import { Store } from '../types'
+import { Store, IncrementAllResponse } from '../types'
 import Redis, { Redis as RedisClient } from 'ioredis';
 
 interface RedisStoreOptions {
@@ -54,14 +54,15 @@ export default class FixedWindowRedisStore implements Store {
     }
   }
 
-    async increment(key: string) {
+    async increment(key: string, amount = 1) {
       console.log("redis used!!!")
       const results = await this.client.eval(
         scripts.increment,
         1,
         this.prefixKey(key),
         this.resetExpiryOnChange ? '1' : '0',
-        this.windowMs.toString()
+        this.windowMs.toString(),
+        amount.toString()
       )
   
       if (!Array.isArray(results)) 
@@ -79,8 +80,43 @@ export default class FixedWindowRedisStore implements Store {
       }
     }
 
-  async decrement(key: string) {
-    await this.client.decr(this.prefixKey(key))
+  // Count a request against several keys in one script, only if it fits under
+  // the limit of every one of them. On Redis Cluster, the keys have to share a
+  // hash slot, e.g. through a `{...}` hash tag in the prefix.
+  async incrementAll(keys: string[], limits: number[], amount = 1): Promise<IncrementAllResponse> {
+    const results = await this.client.eval(
+      scripts.incrementAll,
+      keys.length,
+      ...keys.map((key) => this.prefixKey(key)),
+      this.resetExpiryOnChange ? '1' : '0',
+      this.windowMs.toString(),
+      amount.toString(),
+      ...limits.map((limit) => limit.toString())
+    )
+
+    if (!Array.isArray(results))
+      throw new TypeError('Expected result to be array of values')
+
+    if (results.length !== 1 + keys.length * 2)
+      throw new Error(`Expected ${1 + keys.length * 2} replies, got ${results.length}`)
+
+    const now = Date.now()
+    return {
+      accepted: Number(results[0]) === 1,
+      keys: keys.map((_key, index) => ({
+        totalHits: Number(results[1 + index * 2]),
+        resetTime: new Date(now + Number(results[2 + index * 2]))
+      }))
+    }
+  }
+
+  async decrement(key: string, amount = 1) {
+    await this.client.eval(
+      scripts.decrement,
+      1,
+      this.prefixKey(key),
+      amount.toString()
+    )
   }
 
   async resetKey(key: string) {
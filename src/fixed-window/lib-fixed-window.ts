@@ -14,10 +14,11 @@ import type {
 import {
 	setDraft6Headers,
 	setDraft7Headers,
+	setDraft8Headers,
 	setRetryAfterHeader,
 } from '../header'
 
-import { parseOptions, handleAsyncErrors, getOptionsFromConfig } from '../parseConfig'
+import { parseOptions, handleAsyncErrors, getOptionsFromConfig, checkCost } from '../parseConfig'
 
 
 
@@ -70,11 +71,18 @@ const fixedWindow = (
 
 			console.log(key)
 
-			// Increment the client's hit counter by one.
+			// Get the cost (number of hits) of this request.
+			const retrieveCost =
+				typeof config.cost === 'function'
+					? config.cost(request, response)
+					: config.cost
+			const cost = checkCost(await retrieveCost)
+
+			// Increment the client's hit counter by the cost of the request.
 			let totalHits = 0
 			let resetTime
 			try {
-				const incrementResult = await config.store.increment(key)
+				const incrementResult = await config.store.increment(key, cost)
 				console.log(incrementResult)
 				totalHits = incrementResult.totalHits
 				resetTime = incrementResult.resetTime
@@ -92,7 +100,7 @@ const fixedWindow = (
 			}
 
 			// Make sure that -
-			// - the hit count is incremented only by one.
+			// - the hit count is incremented only once per request.
 			// - the returned hit count is a positive integer.
 			config.validations.positiveHits(totalHits)
 			config.validations.singleCount(request, config.store, key)
@@ -132,6 +140,15 @@ const fixedWindow = (
 				} else if (config.standardHeaders === 'draft-7') {
 					config.validations.headersResetTime(info.resetTime)
 					setDraft7Headers(response, info, config.windowMs)
+				} else if (config.standardHeaders === 'draft-8') {
+					const retrieveName =
+						typeof config.identifier === 'function'
+							? config.identifier(request, response)
+							: config.identifier
+					const name = await retrieveName
+
+					config.validations.headersResetTime(info.resetTime)
+					setDraft8Headers(response, info, config.windowMs, name, key)
 				}
 			}
 
@@ -141,7 +158,7 @@ const fixedWindow = (
 				let decremented = false
 				const decrementKey = async () => {
 					if (!decremented) {
-						await config.store.decrement(key)
+						await config.store.decrement(key, cost)
 						decremented = true
 					}
 				}
@@ -1,6 +1,6 @@
 
 
-import type { Store, Options, ClientRateLimitInfo } from '../types'
+import type { Store, Options, ClientRateLimitInfo, IncrementAllResponse } from '../types'
 
 /**
  * The record that stores information about a client - namely, how many times
@@ -76,12 +76,13 @@ export default class MemoryFixedWindowStore implements Store {
 	 * Method to increment a client's hit counter.
 	 *
 	 * @param key {string} - The identifier for a client.
+	 * @param amount {number} - The number of hits to add.
 	 *
 	 * @returns {ClientRateLimitInfo} - The number of hits and reset time for that client.
 	 *
 	 * @public
 	 */
-	async increment(key: string): Promise<ClientRateLimitInfo> {
+	async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
 		const client = this.getClient(key)
 		console.log('increment!!!')
 		console.log(client)
@@ -91,22 +92,65 @@ export default class MemoryFixedWindowStore implements Store {
 			this.resetClient(client, now)
 		}
 
-		client.totalHits++
+		client.totalHits += amount
 		this.current.set(key, client)
 		return client
 	}
 
+	/**
+	 * Method to increment the hit counters of several clients at once, only if
+	 * the request fits under the limit of every one of them. Nothing is awaited
+	 * in between, so no other request can get in the way.
+	 *
+	 * @param keys {string[]} - The identifiers of the clients.
+	 * @param limits {number[]} - The limit of each client.
+	 * @param amount {number} - The number of hits to add.
+	 *
+	 * @returns {IncrementAllResponse} - Whether the request was counted, and the number of hits and reset time for each client.
+	 *
+	 * @public
+	 */
+	async incrementAll(
+		keys: string[],
+		limits: number[],
+		amount = 1,
+	): Promise<IncrementAllResponse> {
+		const now = Date.now()
+		const clients = keys.map((key) => {
+			const client = this.getClient(key)
+			if (client.resetTime.getTime() <= now) this.resetClient(client, now)
+
+			return client
+		})
+
+		const accepted = clients.every(
+			(client, index) => client.totalHits + amount <= limits[index],
+		)
+		if (accepted) {
+			for (const client of clients) client.totalHits += amount
+		}
+
+		return {
+			accepted,
+			keys: clients.map(({ totalHits, resetTime }) => ({
+				totalHits,
+				resetTime: new Date(resetTime),
+			})),
+		}
+	}
+
 	/**
 	 * Method to decrement a client's hit counter.
 	 *
 	 * @param key {string} - The identifier for a client.
+	 * @param amount {number} - The number of hits to take back.
 	 *
 	 * @public
 	 */
-	async decrement(key: string): Promise<void> {
+	async decrement(key: string, amount = 1): Promise<void> {
 		const client = this.getClient(key)
 
-		if (client.totalHits > 0) client.totalHits--
+		client.totalHits = Math.max(client.totalHits - amount, 0)
 	}
 
 	/**
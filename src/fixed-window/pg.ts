@@ -1,5 +1,12 @@
 import { Pool } from 'pg'; // PostgreSQL client library
-import type { Store, Options, ClientRateLimitInfo } from '../types';
+import type { Store, Options, ClientRateLimitInfo, IncrementAllResponse } from '../types';
+
+// A row of the `rate_limit` table
+interface RateLimitRow {
+  key: string;
+  total_hits: number;
+  reset_time: Date;
+}
 
 export default class PostgresFixedWindowStore implements Store {
   private pool: Pool;
@@ -45,8 +52,8 @@ export default class PostgresFixedWindowStore implements Store {
     return undefined;
   }
 
-  // Increment the total hit count for a specific key
-  async increment(key: string): Promise<ClientRateLimitInfo> {
+  // Increment the total hit count for a specific key by the given amount
+  async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
     const now = new Date();
     const resetTime = new Date(now.getTime() + this.windowMs);
 
@@ -64,14 +71,14 @@ export default class PostgresFixedWindowStore implements Store {
 
         if (new Date(reset_time).getTime() <= now.getTime()) {
           // Reset if the window has expired
-          totalHits = 1;
+          totalHits = amount;
           await this.pool.query(
             'UPDATE rate_limit SET total_hits = $1, reset_time = $2 WHERE key = $3',
             [totalHits, resetTime, key]
           );
         } else {
           // Increment hit count
-          totalHits = total_hits + 1;
+          totalHits = total_hits + amount;
           await this.pool.query(
             'UPDATE rate_limit SET total_hits = $1 WHERE key = $2',
             [totalHits, key]
@@ -79,7 +86,7 @@ export default class PostgresFixedWindowStore implements Store {
         }
       } else {
         // Create a new record if the key doesn't exist
-        totalHits = 1;
+        totalHits = amount;
         await this.pool.query(
           'INSERT INTO rate_limit (key, total_hits, reset_time) VALUES ($1, $2, $3)',
           [key, totalHits, resetTime]
@@ -95,11 +102,69 @@ export default class PostgresFixedWindowStore implements Store {
     }
   }
 
+  // Count a request against several keys in one transaction, only if it fits
+  // under the limit of every one of them
+  async incrementAll(keys: string[], limits: number[], amount = 1): Promise<IncrementAllResponse> {
+    const now = Date.now();
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialize concurrent hits for the same keys, always locking them in the
+      // same order so that two requests cannot deadlock
+      for (const key of [...keys].sort()) {
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [key]);
+      }
+
+      const result = await client.query<RateLimitRow>(
+        'SELECT key, total_hits, reset_time FROM rate_limit WHERE key = ANY($1)',
+        [keys]
+      );
+      const counters: ClientRateLimitInfo[] = keys.map((key) => {
+        const row = result.rows.find((row) => row.key === key);
+
+        // Start a new window if there is none, or it has expired
+        if (!row || new Date(row.reset_time).getTime() <= now) {
+          return { totalHits: 0, resetTime: new Date(now + this.windowMs) };
+        }
+
+        return { totalHits: row.total_hits, resetTime: new Date(row.reset_time) };
+      });
+
+      const accepted = counters.every(
+        (counter, index) => counter.totalHits + amount <= limits[index]
+      );
+
+      if (accepted) {
+        for (const [index, counter] of counters.entries()) {
+          counter.totalHits += amount;
+          await client.query(
+            `INSERT INTO rate_limit (key, total_hits, reset_time)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (key)
+             DO UPDATE SET total_hits = $2, reset_time = $3`,
+            [keys[index], counter.totalHits, counter.resetTime]
+          );
+        }
+      }
+
+      await client.query('COMMIT');
+
+      return { accepted, keys: counters };
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
   // Decrement the hit count for a specific key, ensuring it's never less than zero
-  async decrement(key: string): Promise<void> {
+  async decrement(key: string, amount = 1): Promise<void> {
     await this.pool.query(
-      'UPDATE rate_limit SET total_hits = GREATEST(total_hits - 1, 0) WHERE key = $1',
-      [key]
+      'UPDATE rate_limit SET total_hits = GREATEST(total_hits - $2, 0) WHERE key = $1',
+      [key, amount]
     );
   }
 
@@ -6,28 +6,28 @@ const scripts = {
      * - KEYS[1]: the rate limit key
      * - ARGV[1]: reset expiry flag (1 or 0)
      * - ARGV[2]: window duration in milliseconds
-     * - ARGV[3]: current timestamp (optional)
+     * - ARGV[3]: number of hits to add (optional, defaults to 1)
      */
     increment: `
-      -- Get the current hits and timestamp
+      -- Get the current hits
       local currentHits = redis.call("GET", KEYS[1])
-      local currentTimestamp = tonumber(ARGV[3] or redis.call("TIME")[1] * 1000)
       local windowMs = tonumber(ARGV[2])
+      local amount = tonumber(ARGV[3] or 1)
   
       -- If no hits or expired, reset
       if not currentHits or 
          (redis.call("PTTL", KEYS[1]) <= 0) or 
          (tonumber(currentHits) == 0) then
           
-          -- Reset hits to 1 and set expiry
-          redis.call("SET", KEYS[1], "1")
+          -- Reset hits to the amount and set expiry
+          redis.call("SET", KEYS[1], amount)
           redis.call("PEXPIRE", KEYS[1], windowMs)
           
-          return {1, windowMs}
+          return {amount, windowMs}
       end
   
       -- Increment hits
-      local newHits = redis.call("INCR", KEYS[1])
+      local newHits = redis.call("INCRBY", KEYS[1], amount)
   
       -- Optionally reset expiry on each change if flag is set
       if ARGV[1] == "1" then
@@ -42,6 +42,68 @@ const scripts = {
     .replaceAll(/^\s+/gm, '')
     .trim(),
   
+    /**
+     * Increment script for several keys at once, used by the hierarchical
+     * limiter. The hits are only added if they fit under the limit of every key.
+     * 
+     * Parameters:
+     * - KEYS[1], KEYS[2], ...: the rate limit keys
+     * - ARGV[1]: reset expiry flag (1 or 0)
+     * - ARGV[2]: window duration in milliseconds
+     * - ARGV[3]: number of hits to add
+     * - ARGV[4], ARGV[5], ...: the limit of each key
+     */
+    incrementAll: `
+      local windowMs = tonumber(ARGV[2])
+      local amount = tonumber(ARGV[3])
+
+      local hits = {}
+      local ttls = {}
+      local accepted = 1
+
+      for i, key in ipairs(KEYS) do
+          local currentHits = tonumber(redis.call("GET", key))
+          local ttl = redis.call("PTTL", key)
+
+          -- Start a new window if there is none, or it has expired
+          if not currentHits or ttl <= 0 then
+              hits[i] = 0
+              ttls[i] = -1
+          else
+              hits[i] = currentHits
+              ttls[i] = ttl
+          end
+
+          if hits[i] + amount > tonumber(ARGV[3 + i]) then
+              accepted = 0
+          end
+      end
+
+      if accepted == 1 then
+          for i, key in ipairs(KEYS) do
+              hits[i] = hits[i] + amount
+
+              if ttls[i] < 0 or ARGV[1] == "1" then
+                  redis.call("SET", key, hits[i], "PX", windowMs)
+                  ttls[i] = windowMs
+              else
+                  redis.call("INCRBY", key, amount)
+              end
+          end
+      end
+
+      -- Return the accepted flag, then the hits and time to expire of each key
+      local result = {accepted}
+      for i = 1, #KEYS do
+          table.insert(result, hits[i])
+          table.insert(result, ttls[i] < 0 and windowMs or ttls[i])
+      end
+
+      return result
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim(),
+  
     /**
      * Get script for retrieving current rate limit status.
      * 
@@ -66,13 +128,15 @@ const scripts = {
      * 
      * Parameters:
      * - KEYS[1]: the rate limit key
+     * - ARGV[1]: number of hits to take back (optional, defaults to 1)
      */
     decrement: `
-      -- Decrement hits if key exists and hits are > 0
+      -- Decrement hits if key exists and hits are > 0, never going below 0
       local currentHits = redis.call("GET", KEYS[1])
+      local amount = tonumber(ARGV[1] or 1)
       
       if currentHits and tonumber(currentHits) > 0 then
-          local newHits = redis.call("DECR", KEYS[1])
+          local newHits = redis.call("DECRBY", KEYS[1], math.min(amount, tonumber(currentHits)))
           return {newHits, redis.call("PTTL", KEYS[1])}
       end
       
@@ -0,0 +1,37 @@
+import type { ClientRateLimitInfo } from '../types'
+
+/**
+ * Converts a client's theoretical arrival time (TAT) into the hit count and
+ * reset time the middleware and headers work with.
+ *
+ * The hit count is the number of emission intervals between now and the TAT,
+ * so a client that has not been seen for `windowMs` is back to zero. While the
+ * client is within `limit`, the reset time is the TAT itself (when the full
+ * burst is available again). Once over the limit, it is the moment the
+ * request would have conformed.
+ *
+ * @param arrival {number} - The client's theoretical arrival time, including this request.
+ * @param now {number} - The current time.
+ * @param emissionInterval {number} - The time between two requests at the sustained rate.
+ * @param limit {number | undefined} - The number of requests allowed in a burst, if known.
+ *
+ * @returns {ClientRateLimitInfo} - The number of hits and reset time for that client.
+ */
+export const getGcraInfo = (
+	arrival: number,
+	now: number,
+	emissionInterval: number,
+	limit?: number,
+): ClientRateLimitInfo => {
+	// Allow for floating point error when the interval is not a whole number.
+	const totalHits = Math.max(
+		Math.ceil((arrival - now) / emissionInterval - 1e-9),
+		0,
+	)
+	const resetTime =
+		limit !== undefined && totalHits > limit
+			? arrival - limit * emissionInterval
+			: arrival
+
+	return { totalHits, resetTime: new Date(Math.ceil(resetTime)) }
+}
@@ -0,0 +1,88 @@
+import scripts from './scripts'
+import type { Store, Options, ClientRateLimitInfo } from '../types'
+import { getGcraInfo } from './arrival'
+import { Redis as RedisClient } from 'ioredis';
+
+interface RedisStoreOptions {
+  client: RedisClient
+  prefix?: string
+}
+
+export default class GcraRedisStore implements Store {
+  public client: RedisClient
+  public prefix: string
+  public limit!: number
+  public emissionInterval!: number
+
+  localKeys = false
+
+  constructor(options: RedisStoreOptions) {
+    this.client = options.client
+    this.prefix = options.prefix ?? 'rl-gcra:'
+  }
+
+  init(options: Options) {
+    this.limit = options.limit as number
+    this.emissionInterval = options.windowMs / this.limit
+  }
+
+  private prefixKey(key: string): string {
+    return `${this.prefix}${key}`
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const arrival = await this.client.get(this.prefixKey(key))
+    const now = Date.now()
+    if (arrival === null || Number(arrival) <= now) return undefined
+
+    return getGcraInfo(Number(arrival), now, this.emissionInterval, this.limit)
+  }
+
+  async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
+    const now = Date.now()
+    const results = await this.client.eval(
+      scripts.increment,
+      1,
+      this.prefixKey(key),
+      now.toString(),
+      this.emissionInterval.toString(),
+      this.limit.toString(),
+      amount.toString()
+    )
+
+    if (!Array.isArray(results))
+      throw new TypeError('Expected result to be array of values')
+
+    if (results.length !== 2)
+      throw new Error(`Expected 2 replies, got ${results.length}`)
+
+    return getGcraInfo(Number(results[1]), now, this.emissionInterval, this.limit)
+  }
+
+  async decrement(key: string, amount = 1) {
+    await this.client.eval(
+      scripts.decrement,
+      1,
+      this.prefixKey(key),
+      Date.now().toString(),
+      this.emissionInterval.toString(),
+      amount.toString()
+    )
+  }
+
+  async resetKey(key: string) {
+    await this.client.del(this.prefixKey(key))
+  }
+
+  async resetAll() {
+    // Find all keys with the prefix and delete them
+    const keys = await this.client.keys(`${this.prefix}*`)
+    if (keys.length > 0) {
+      await this.client.del(...keys)
+    }
+  }
+
+  async shutdown() {
+    // For ioredis, typically no special shutdown is needed
+  }
+}
@@ -0,0 +1,206 @@
+import type { Request, Response, NextFunction } from 'express'
+import type {
+	Options,
+	AugmentedRequest,
+	RateLimitRequestHandler,
+	RateLimitInfo,
+} from '../types'
+import {
+	setDraft6Headers,
+	setDraft7Headers,
+	setDraft8Headers,
+	setRetryAfterHeader,
+} from '../header'
+
+import { parseOptions, handleAsyncErrors, getOptionsFromConfig, checkCost } from '../parseConfig'
+import MemoryGcraStore from './memory-gcra'
+
+/**
+ *
+ * Create an instance of GCRA (Generic Cell Rate Algorithm) rate-limiting
+ * middleware for Express.
+ *
+ * Requests are spaced out at `limit` per `windowMs`, with bursts of up to
+ * `limit` requests allowed after a quiet period. Only one timestamp is stored
+ * per client, and requests that are rejected are not counted against it.
+ *
+ * @param passedOptions {Options} - Options to configure the rate limiter.
+ *
+ * @returns {RateLimitRequestHandler} - The middleware that rate-limits clients based on your configuration.
+ *
+ * @public
+ */
+const gcra = (
+	passedOptions?: Partial<Options>
+): RateLimitRequestHandler => {
+	// Parse the options and add the default values for unspecified options
+	const config = parseOptions({
+		...passedOptions,
+		store: passedOptions?.store ?? new MemoryGcraStore(),
+	})
+	const options = getOptionsFromConfig(config)
+
+	// The stores derive the emission interval from the limit up front.
+	if (typeof config.limit !== 'number' || config.limit <= 0) {
+		throw new TypeError(
+			'The GCRA rate limiter requires `limit` to be a positive number.',
+		)
+	}
+	const limit = config.limit
+
+	// Call the `init` method on the store, if it exists
+	if (typeof config.store.init === 'function') config.store.init(options)
+
+	// Then return the actual middleware
+	const middleware = handleAsyncErrors(
+		async (request: Request, response: Response, next: NextFunction) => {
+			// First check if we should skip the request
+			const skip = await config.skip(request, response)
+			if (skip) {
+				next()
+				return
+			}
+
+			// Create an augmented request
+			const augmentedRequest = request as AugmentedRequest
+
+			// Get a unique key for the client
+			const key = await config.keyGenerator(request, response)
+
+			// Get the cost (number of hits) of this request.
+			const retrieveCost =
+				typeof config.cost === 'function'
+					? config.cost(request, response)
+					: config.cost
+			const cost = checkCost(await retrieveCost)
+
+			// Try to let the request through at the client's rate.
+			let totalHits = 0
+			let resetTime
+			try {
+				const incrementResult = await config.store.increment(key, cost)
+				totalHits = incrementResult.totalHits
+				resetTime = incrementResult.resetTime
+			} catch (error) {
+				if (config.passOnStoreError) {
+					console.error(
+						'express-rate-limit: error from store, allowing request without rate-limiting.',
+						error,
+					)
+					next()
+					return
+				}
+
+				throw error
+			}
+
+			config.validations.positiveHits(totalHits)
+			config.validations.singleCount(request, config.store, key)
+
+			// Define the rate limit info for the client.
+			const info: RateLimitInfo = {
+				limit,
+				used: Math.min(totalHits, limit),
+				remaining: Math.max(limit - totalHits, 0),
+				resetTime,
+			}
+
+			// Set the `current` property on the object, but hide it from iteration
+			// and `JSON.stringify`. See the `./types#RateLimitInfo` for details.
+			Object.defineProperty(info, 'current', {
+				configurable: false,
+				enumerable: false,
+				value: totalHits,
+			})
+
+			// Set the rate limit information on the augmented request object
+			augmentedRequest[config.requestPropertyName] = info
+
+			// Set the standardized `RateLimit-*` headers on the response object if
+			// enabled.
+			if (config.standardHeaders && !response.headersSent) {
+				if (config.standardHeaders === 'draft-6') {
+					setDraft6Headers(response, info, config.windowMs)
+				} else if (config.standardHeaders === 'draft-7') {
+					config.validations.headersResetTime(info.resetTime)
+					setDraft7Headers(response, info, config.windowMs)
+				} else if (config.standardHeaders === 'draft-8') {
+					const retrieveName =
+						typeof config.identifier === 'function'
+							? config.identifier(request, response)
+							: config.identifier
+					const name = await retrieveName
+
+					config.validations.headersResetTime(info.resetTime)
+					setDraft8Headers(response, info, config.windowMs, name, key)
+				}
+			}
+
+			// Disable the validations, since they should have run at least once by now.
+			config.validations.disable()
+
+			// Requests that do not conform are never recorded by the store, so
+			// there is nothing to give back for them.
+			if (totalHits > limit) {
+				if (config.standardHeaders) {
+					setRetryAfterHeader(response, info, config.windowMs)
+				}
+
+				config.handler(request, response, next, options)
+				return
+			}
+
+			// If we are to skip failed/successfull requests, give the request back
+			// once we know the status code of the request
+			if (config.skipFailedRequests || config.skipSuccessfulRequests) {
+				let decremented = false
+				const decrementKey = async () => {
+					if (!decremented) {
+						await config.store.decrement(key, cost)
+						decremented = true
+					}
+				}
+
+				if (config.skipFailedRequests) {
+					response.on('finish', async () => {
+						if (!(await config.requestWasSuccessful(request, response)))
+							await decrementKey()
+					})
+					response.on('close', async () => {
+						if (!response.writableEnded) await decrementKey()
+					})
+					response.on('error', async () => {
+						await decrementKey()
+					})
+				}
+
+				if (config.skipSuccessfulRequests) {
+					response.on('finish', async () => {
+						if (await config.requestWasSuccessful(request, response))
+							await decrementKey()
+					})
+				}
+			}
+
+			next()
+		},
+	)
+
+	const getThrowFn = () => {
+		throw new Error('The current store does not support the get/getKey method')
+	}
+
+	// Export the store's function to reset and fetch the rate limit info for a
+	// client based on their identifier.
+	;(middleware as RateLimitRequestHandler).resetKey =
+		config.store.resetKey.bind(config.store)
+	;(middleware as RateLimitRequestHandler).getKey =
+		typeof config.store.get === 'function'
+			? config.store.get.bind(config.store)
+			: getThrowFn
+
+	return middleware as RateLimitRequestHandler
+}
+
+// Export it to the world!
+export default gcra
@@ -0,0 +1,166 @@
+import type { Store, Options, ClientRateLimitInfo } from '../types'
+import { getGcraInfo } from './arrival'
+
+/**
+ * A `Store` that implements the Generic Cell Rate Algorithm in memory. Only the
+ * theoretical arrival time (TAT) of the next request is kept for each client.
+ *
+ * @public
+ */
+export default class MemoryGcraStore implements Store {
+	/**
+	 * The period in which `limit` requests are allowed (in milliseconds).
+	 */
+	windowMs!: number
+
+	/**
+	 * The number of requests allowed in a burst.
+	 */
+	limit!: number
+
+	/**
+	 * The time between two requests at the sustained rate (in milliseconds).
+	 */
+	emissionInterval!: number
+
+	/**
+	 * The theoretical arrival time for each client.
+	 */
+	arrivals = new Map<string, number>()
+
+	/**
+	 * A reference to the active timer.
+	 */
+	interval?: NodeJS.Timeout
+
+	/**
+	 * Confirmation that the keys incremented in once instance of MemoryStore
+	 * cannot affect other instances.
+	 */
+	localKeys = true
+
+	/**
+	 * Method that initializes the store.
+	 *
+	 * @param options {Options} - The options used to setup the middleware.
+	 */
+	init(options: Options): void {
+		this.windowMs = options.windowMs
+		this.limit = options.limit as number
+		this.emissionInterval = this.windowMs / this.limit
+
+		// Indicates that init was called more than once.
+		// Could happen if a store was shared between multiple instances.
+		if (this.interval) clearInterval(this.interval)
+
+		// Drop the clients that have fully recovered every `windowMs`.
+		this.interval = setInterval(() => {
+			this.clearExpired()
+		}, this.windowMs)
+
+		// Cleaning up the interval will be taken care of by the `shutdown` method.
+		if (this.interval.unref) this.interval.unref()
+	}
+
+	/**
+	 * Method to fetch a client's hit count and reset time.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 *
+	 * @returns {ClientRateLimitInfo | undefined} - The number of hits and reset time for that client.
+	 *
+	 * @public
+	 */
+	async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+		const arrival = this.arrivals.get(key)
+		const now = Date.now()
+		if (arrival === undefined || arrival <= now) return undefined
+
+		return getGcraInfo(arrival, now, this.emissionInterval, this.limit)
+	}
+
+	/**
+	 * Method to let a request through if it conforms to the rate, moving the
+	 * client's theoretical arrival time forward by one emission interval per
+	 * hit. Requests that do not conform are not recorded.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 * @param amount {number} - The number of hits the request costs.
+	 *
+	 * @returns {ClientRateLimitInfo} - The number of hits and reset time for that client.
+	 *
+	 * @public
+	 */
+	async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
+		const now = Date.now()
+		const arrival =
+			Math.max(this.arrivals.get(key) ?? now, now) +
+			this.emissionInterval * amount
+		const info = getGcraInfo(arrival, now, this.emissionInterval, this.limit)
+
+		if (info.totalHits <= this.limit) this.arrivals.set(key, arrival)
+
+		return info
+	}
+
+	/**
+	 * Method to give a request back, moving the client's theoretical arrival
+	 * time back by one emission interval per hit.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 * @param amount {number} - The number of hits to give back.
+	 *
+	 * @public
+	 */
+	async decrement(key: string, amount = 1): Promise<void> {
+		const arrival = this.arrivals.get(key)
+		if (arrival === undefined) return
+
+		const refunded = arrival - this.emissionInterval * amount
+		if (refunded <= Date.now()) this.arrivals.delete(key)
+		else this.arrivals.set(key, refunded)
+	}
+
+	/**
+	 * Method to reset a client's theoretical arrival time.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 *
+	 * @public
+	 */
+	async resetKey(key: string): Promise<void> {
+		this.arrivals.delete(key)
+	}
+
+	/**
+	 * Method to reset everyone's theoretical arrival time.
+	 *
+	 * @public
+	 */
+	async resetAll(): Promise<void> {
+		this.arrivals.clear()
+	}
+
+	/**
+	 * Method to stop the timer (if currently running) and prevent any memory
+	 * leaks.
+	 *
+	 * @public
+	 */
+	shutdown(): void {
+		clearInterval(this.interval)
+		void this.resetAll()
+	}
+
+	/**
+	 * Removes the clients whose theoretical arrival time has passed.
+	 *
+	 * This function is called every `windowMs`.
+	 */
+	private clearExpired(): void {
+		const now = Date.now()
+		for (const [key, arrival] of this.arrivals) {
+			if (arrival <= now) this.arrivals.delete(key)
+		}
+	}
+}
@@ -0,0 +1,98 @@
+import { Pool } from 'pg'; // PostgreSQL client library
+import type { Store, Options, ClientRateLimitInfo } from '../types';
+import { getGcraInfo } from './arrival';
+
+export default class PostgresGcraStore implements Store {
+  private pool: Pool;
+  private limit!: number;
+  private emissionInterval!: number;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  // Initialize the store by creating the table if it doesn't exist
+  async init(options: Options): Promise<void> {
+    this.limit = options.limit as number;
+    this.emissionInterval = options.windowMs / this.limit;
+
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS gcra (
+        key TEXT PRIMARY KEY,
+        arrival DOUBLE PRECISION NOT NULL
+      )
+    `);
+  }
+
+  // Get the hit count and reset time for a specific key
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const result = await this.pool.query('SELECT arrival FROM gcra WHERE key = $1', [key]);
+    const now = Date.now();
+
+    if (result.rows.length === 0 || result.rows[0].arrival <= now) return undefined;
+
+    return getGcraInfo(result.rows[0].arrival, now, this.emissionInterval, this.limit);
+  }
+
+  // Move the theoretical arrival time forward if the request conforms
+  async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
+    const now = Date.now();
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialize concurrent hits for the same key. `FOR UPDATE` would lock
+      // nothing on the first hit, before the row exists.
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [key]);
+
+      const result = await client.query('SELECT arrival FROM gcra WHERE key = $1', [key]);
+
+      const stored = result.rows.length > 0 ? result.rows[0].arrival : now;
+      const arrival = Math.max(stored, now) + this.emissionInterval * amount;
+      const info = getGcraInfo(arrival, now, this.emissionInterval, this.limit);
+
+      if (info.totalHits <= this.limit) {
+        await client.query(
+          `INSERT INTO gcra (key, arrival)
+           VALUES ($1, $2)
+           ON CONFLICT (key)
+           DO UPDATE SET arrival = $2`,
+          [key, arrival]
+        );
+      }
+
+      await client.query('COMMIT');
+
+      return info;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Move the theoretical arrival time back by one emission interval per hit
+  async decrement(key: string, amount = 1): Promise<void> {
+    await this.pool.query(
+      'UPDATE gcra SET arrival = GREATEST(arrival - $1, $2) WHERE key = $3',
+      [this.emissionInterval * amount, Date.now(), key]
+    );
+  }
+
+  // Reset the theoretical arrival time for a specific key
+  async resetKey(key: string): Promise<void> {
+    await this.pool.query('DELETE FROM gcra WHERE key = $1', [key]);
+  }
+
+  // Reset all keys and clear the table
+  async resetAll(): Promise<void> {
+    await this.pool.query('TRUNCATE TABLE gcra');
+  }
+
+  // Gracefully shut down the store and close the connection pool
+  async shutdown(): Promise<void> {
+    await this.pool.end();
+  }
+}
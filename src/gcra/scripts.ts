@@ -0,0 +1,69 @@
+const scripts = {
+    /**
+     * Increment script for GCRA rate limiting. The theoretical arrival time is
+     * only moved forward if the request conforms.
+     *
+     * Parameters:
+     * - KEYS[1]: the rate limit key (the theoretical arrival time)
+     * - ARGV[1]: current timestamp in milliseconds
+     * - ARGV[2]: emission interval in milliseconds
+     * - ARGV[3]: number of requests allowed in a burst
+     * - ARGV[4]: number of hits the request costs
+     */
+    increment: `
+      local now = tonumber(ARGV[1])
+      local emissionInterval = tonumber(ARGV[2])
+      local limit = tonumber(ARGV[3])
+      local amount = tonumber(ARGV[4])
+
+      local arrival = tonumber(redis.call("GET", KEYS[1])) or now
+      arrival = math.max(arrival, now) + emissionInterval * amount
+
+      -- Allow for floating point error when the interval is not a whole number
+      local totalHits = math.ceil((arrival - now) / emissionInterval - 1e-9)
+
+      if totalHits <= limit then
+          redis.call("SET", KEYS[1], tostring(arrival), "PX", math.ceil(arrival - now))
+      end
+
+      -- Return the arrival time as a string, numbers are truncated to integers
+      return {totalHits, tostring(arrival)}
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim(),
+
+    /**
+     * Decrement script, moves the theoretical arrival time back by one
+     * emission interval per hit.
+     *
+     * Parameters:
+     * - KEYS[1]: the rate limit key
+     * - ARGV[1]: current timestamp in milliseconds
+     * - ARGV[2]: emission interval in milliseconds
+     * - ARGV[3]: number of hits to give back
+     */
+    decrement: `
+      local now = tonumber(ARGV[1])
+      local emissionInterval = tonumber(ARGV[2])
+      local amount = tonumber(ARGV[3])
+
+      local arrival = tonumber(redis.call("GET", KEYS[1]))
+      if not arrival then
+          return 0
+      end
+
+      arrival = arrival - emissionInterval * amount
+      if arrival <= now then
+          redis.call("DEL", KEYS[1])
+      else
+          redis.call("SET", KEYS[1], tostring(arrival), "PX", math.ceil(arrival - now))
+      end
+
+      return 1
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim()
+  }
+
+  // Export scripts for use in Redis store implementation
+  export default scripts
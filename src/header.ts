@@ -1,6 +1,7 @@
 // /source/headers.ts
 // Header setting functions for rate-limiting middleware
 
+import { createHash } from 'node:crypto';
 import type { Response } from 'express';
 import type { RateLimitInfo } from './types';
 
@@ -80,6 +81,93 @@ export const setDraft7Headers = (
   );
 };
 
+/**
+ * Sets the `RateLimit-Policy` header to list several quota policies at once,
+ * for limiters that enforce more than one window. Used with the sixth and
+ * seventh drafts, after the rest of their headers have been set.
+ *
+ * @param response - The Express response object to set the header on.
+ * @param policies - The limit and window duration (in milliseconds) of each policy.
+ */
+export const setPoliciesHeader = (
+  response: Response,
+  policies: Array<{ limit: number; windowMs: number }>,
+): void => {
+  if (response.headersSent) return;
+
+  response.setHeader(
+    'RateLimit-Policy',
+    policies
+      .map(({ limit, windowMs }) => `${limit};w=${Math.ceil(windowMs / 1000)}`)
+      .join(', '),
+  );
+};
+
+/**
+ * Converts a client's key into the partition key sent along with the draft-8
+ * headers. The key is hashed, so that the client's IP address (or whatever else
+ * the key is made of) is not leaked in the response.
+ *
+ * @param key - The identifier for the client.
+ * @returns The partition key, as a base64 encoded byte sequence.
+ */
+const getPartitionKey = (key: string): string => {
+  const hash = createHash('sha256');
+  hash.update(key);
+
+  const partitionKey = hash.digest('hex').slice(0, 12);
+  return Buffer.from(partitionKey).toString('base64');
+};
+
+/**
+ * Serializes a policy name as a structured field string (RFC 8941, section
+ * 3.3.3), escaping the quotes and backslashes in it.
+ *
+ * @param name - The name of the quota policy.
+ * @returns The name in double quotes, ready to be put in a header.
+ */
+const serializeString = (name: string): string => {
+  if (/[^\x20-\x7e]/.test(name)) {
+    throw new TypeError(
+      `The name of a quota policy may only contain printable ASCII characters, but "${name}" was passed.`,
+    );
+  }
+
+  return `"${name.replace(/[\\"]/g, '\\$&')}"`;
+};
+
+/**
+ * Sets the `RateLimit` and `RateLimit-Policy` headers based on the eighth draft
+ * of the IETF rate-limiting specification. Both headers are structured fields
+ * named after the quota policy, and are appended so that several limiters can
+ * report their own policies on the same response.
+ *
+ * @param response - The Express response object to set headers on.
+ * @param info - The rate limit information used to populate the headers.
+ * @param windowMs - The duration of the rate-limit window in milliseconds.
+ * @param name - The name of the quota policy (the `identifier` option).
+ * @param key - The identifier for the client, used to derive the partition key.
+ */
+export const setDraft8Headers = (
+  response: Response,
+  info: RateLimitInfo,
+  windowMs: number,
+  name: string,
+  key: string,
+): void => {
+  if (response.headersSent) return;
+
+  const windowSeconds = Math.ceil(windowMs / 1000);
+  const resetSeconds = getResetSeconds(info.resetTime, windowMs);
+  const partitionKey = getPartitionKey(key);
+
+  const policy = `q=${info.limit}; w=${windowSeconds}; pk=:${partitionKey}:`;
+  const header = `r=${info.remaining}; t=${resetSeconds!}`;
+
+  response.append('RateLimit-Policy', `${serializeString(name)}; ${policy}`);
+  response.append('RateLimit', `${serializeString(name)}; ${header}`);
+};
+
 /**
  * Sets the `Retry-After` header on the response to indicate when the client
  * can send the next request after hitting the rate limit.
@@ -0,0 +1,270 @@
+import type { Request, Response, NextFunction } from 'express'
+import type {
+	HierarchicalOptions,
+	HierarchicalRateLimitInfo,
+	RateLimitRequestHandler,
+	RateLimitInfo,
+	IncrementAllResponse,
+} from '../types'
+import {
+	setDraft6Headers,
+	setDraft7Headers,
+	setDraft8Headers,
+	setRetryAfterHeader,
+} from '../header'
+
+import { parseOptions, handleAsyncErrors, getOptionsFromConfig, checkCost } from '../parseConfig'
+
+/**
+ *
+ * Create an instance of hierarchical rate-limiting middleware for Express.
+ *
+ * Every request is charged to several keys at once, one for each of the
+ * `levels` (e.g. the user, their organization and everyone), each with a limit
+ * of its own. The store checks and charges every level in one step, and the
+ * request is rejected without charging anything if any level is exhausted, so
+ * that a user hitting their own limit does not eat into the quota of their
+ * organization.
+ *
+ * The store has to implement `incrementAll`, as the fixed window stores do. The
+ * keys of each level are prefixed with its name, e.g. `org:acme`, which is also
+ * the key to pass to `resetKey` and `getKey`.
+ *
+ * @param passedOptions {HierarchicalOptions} - Options to configure the rate limiter.
+ *
+ * @returns {RateLimitRequestHandler} - The middleware that rate-limits clients based on your configuration.
+ *
+ * @public
+ */
+const hierarchical = (
+	passedOptions?: Partial<HierarchicalOptions>
+): RateLimitRequestHandler => {
+	const { levels = [], ...otherOptions } = passedOptions ?? {}
+
+	const names = levels.map((level) => level.name)
+	if (
+		levels.length === 0 ||
+		levels.some((level) => typeof level.keyGenerator !== 'function') ||
+		new Set(names).size !== names.length
+	) {
+		throw new TypeError(
+			'The hierarchical rate limiter requires `levels` to be a list of `{ name, keyGenerator, limit }` objects, with a unique `name` for each level.',
+		)
+	}
+
+	// Parse the options and add the default values for unspecified options
+	const config = parseOptions(otherOptions)
+	const options = getOptionsFromConfig(config)
+
+	// Charging the levels one by one and refunding them on rejection would let
+	// other requests see (and be rejected by) the charge in between.
+	const { store } = config
+	if (typeof store.incrementAll !== 'function') {
+		throw new TypeError(
+			'The hierarchical rate limiter requires a store that implements `incrementAll`, such as `MemoryFixedWindowStore`, `RedisFixedWindowStore` or `PostgresFixedWindowStore`.',
+		)
+	}
+	const incrementAll = store.incrementAll.bind(store)
+
+	// Call the `init` method on the store, if it exists
+	if (typeof store.init === 'function') store.init(options)
+
+	// Take the charge back from every level of a request
+	const refund = async (keys: string[], cost: number) => {
+		await Promise.all(keys.map(async (key) => store.decrement(key, cost)))
+	}
+
+	// Then return the actual middleware
+	const middleware = handleAsyncErrors(
+		async (request: Request, response: Response, next: NextFunction) => {
+			// First check if we should skip the request
+			const skip = await config.skip(request, response)
+			if (skip) {
+				next()
+				return
+			}
+
+			// Get the cost (number of hits) of this request.
+			const retrieveCost =
+				typeof config.cost === 'function'
+					? config.cost(request, response)
+					: config.cost
+			const cost = checkCost(await retrieveCost)
+
+			// Work out the key and the limit of the request at every level.
+			const targets = await Promise.all(
+				levels.map(async (level) => {
+					const key = await level.keyGenerator(request, response)
+					const limit =
+						typeof level.limit === 'function'
+							? await level.limit(request, response)
+							: level.limit
+					config.validations.limit(limit)
+
+					return { name: level.name, key: `${level.name}:${key}`, limit }
+				}),
+			)
+			const keys = targets.map((target) => target.key)
+
+			// Charge every level in one step, if the request fits into all of them.
+			let result: IncrementAllResponse
+			try {
+				result = await incrementAll(
+					keys,
+					targets.map((target) => target.limit),
+					cost,
+				)
+			} catch (error) {
+				if (config.passOnStoreError) {
+					console.error(
+						'express-rate-limit: error from store, allowing request without rate-limiting.',
+						error,
+					)
+					next()
+					return
+				}
+
+				throw error
+			}
+
+			const levelInfos = targets.map((target, index) => {
+				const { totalHits, resetTime } = result.keys[index]
+
+				return {
+					name: target.name,
+					limit: target.limit,
+					used: totalHits,
+					remaining: Math.max(target.limit - totalHits, 0),
+					resetTime,
+				}
+			})
+
+			// Report the level that is holding the client back the most: if the
+			// request was rejected, the exhausted level that frees up last,
+			// otherwise the one with the fewest requests left.
+			const { accepted } = result
+			const exhausted = levelInfos.filter(
+				(level) => level.used + cost > level.limit,
+			)
+			const tightest = (accepted ? levelInfos : exhausted).reduce(
+				(tightest, level) => {
+					if (accepted && level.remaining !== tightest.remaining)
+						return level.remaining < tightest.remaining ? level : tightest
+
+					return getResetMs(level) > getResetMs(tightest) ? level : tightest
+				},
+			)
+
+			const info: HierarchicalRateLimitInfo = {
+				limit: tightest.limit,
+				used: tightest.used,
+				remaining: tightest.remaining,
+				resetTime: tightest.resetTime,
+				level: tightest.name,
+				levels: levelInfos,
+			}
+			;(request as Request & Record<string, HierarchicalRateLimitInfo>)[
+				config.requestPropertyName
+			] = info
+
+			// Set the standardized `RateLimit-*` headers on the response object if
+			// enabled.
+			if (config.standardHeaders && !response.headersSent) {
+				if (config.standardHeaders === 'draft-6') {
+					setDraft6Headers(response, info, config.windowMs)
+				} else if (config.standardHeaders === 'draft-7') {
+					config.validations.headersResetTime(info.resetTime)
+					setDraft7Headers(response, info, config.windowMs)
+				} else if (config.standardHeaders === 'draft-8') {
+					// Every level gets a policy (and a `RateLimit` entry) named after it.
+					for (const [index, level] of levelInfos.entries()) {
+						setDraft8Headers(response, level, config.windowMs, level.name, keys[index])
+					}
+				}
+			}
+
+			// Disable the validations, since they should have run at least once by now.
+			config.validations.disable()
+
+			// If any level is exhausted, nothing was charged. Set the Retry-After
+			// header and call the `handler` function.
+			if (!accepted) {
+				if (config.standardHeaders) {
+					setRetryAfterHeader(response, info, config.windowMs)
+				}
+
+				config.handler(request, response, next, options)
+				return
+			}
+
+			// If we are to skip failed/successfull requests, refund every level
+			// accordingly once we know the status code of the request
+			if (config.skipFailedRequests || config.skipSuccessfulRequests) {
+				let decremented = false
+				const decrementKeys = async () => {
+					if (!decremented) {
+						decremented = true
+						await refund(keys, cost)
+					}
+				}
+
+				// The response is already on its way by then, so a store error can
+				// only be logged.
+				const handleError = (error: unknown) => {
+					console.error(
+						'express-rate-limit: error from store, could not refund the request.',
+						error,
+					)
+				}
+
+				if (config.skipFailedRequests) {
+					response.on('finish', () => {
+						void (async () => {
+							if (!(await config.requestWasSuccessful(request, response)))
+								await decrementKeys()
+						})().catch(handleError)
+					})
+					response.on('close', () => {
+						if (!response.writableEnded) void decrementKeys().catch(handleError)
+					})
+					response.on('error', () => {
+						void decrementKeys().catch(handleError)
+					})
+				}
+
+				if (config.skipSuccessfulRequests) {
+					response.on('finish', () => {
+						void (async () => {
+							if (await config.requestWasSuccessful(request, response))
+								await decrementKeys()
+						})().catch(handleError)
+					})
+				}
+			}
+
+			next()
+		},
+	)
+
+	const getThrowFn = () => {
+		throw new Error('The current store does not support the get/getKey method')
+	}
+
+	// Export the store's function to reset and fetch the rate limit info for a
+	// level based on its prefixed key.
+	;(middleware as RateLimitRequestHandler).resetKey =
+		store.resetKey.bind(store)
+	;(middleware as RateLimitRequestHandler).getKey =
+		typeof store.get === 'function' ? store.get.bind(store) : getThrowFn
+
+	return middleware as RateLimitRequestHandler
+}
+
+/**
+ * Returns the time a level frees up, or the epoch if the store did not say.
+ */
+const getResetMs = (info: RateLimitInfo): number =>
+	info.resetTime?.getTime() ?? 0
+
+// Export it to the world!
+export default hierarchical
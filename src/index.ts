@@ -5,6 +5,7 @@ import FixedWindow from "./fixed-window/lib-fixed-window";
 import tokenBucket from "./token-bucket/lib";
 import MemoryFixedWindowStore from "./fixed-window/memory-fw";
 import MemoryLeakyBucketStore from "./leaky-bucket/memory-lb";
+import RedisLeakyBucketStore from "./leaky-bucket/cache-memory";
 import MemoryTokenBucketStore from "./token-bucket/memory";
 import RedisTokenBucketStore from "./token-bucket/cache-memory";
 import RedisFixedWindowStore from "./fixed-window/cache-memory";
@@ -13,8 +14,29 @@ import RedisShieldStore from "./shield/memory/cache-memory";
 import PostgresShieldStore from "./shield/memory/pg";
 import ShieldMemoryStore from "./shield/memory/inMemoryStore";
 import PostgresTokenBucketStore from "./token-bucket/pg";
+import SlidingWindowLog from "./sliding-window-log/lib-sliding-window-log";
+import MemorySlidingWindowLogStore from "./sliding-window-log/memory-swl";
+import RedisSlidingWindowLogStore from "./sliding-window-log/cache-memory";
+import PostgresSlidingWindowLogStore from "./sliding-window-log/pg";
+import SlidingWindow from "./sliding-window/lib-sliding-window";
+import MemorySlidingWindowStore from "./sliding-window/memory-sw";
+import RedisSlidingWindowStore from "./sliding-window/cache-memory";
+import PostgresSlidingWindowStore from "./sliding-window/pg";
+import GCRA from "./gcra/lib-gcra";
+import MemoryGcraStore from "./gcra/memory-gcra";
+import RedisGcraStore from "./gcra/cache-memory";
+import PostgresGcraStore from "./gcra/pg";
+import ConcurrencyLimit from "./concurrency/lib-concurrency";
+import MemoryConcurrencyStore from "./concurrency/memory-concurrency";
+import RedisConcurrencyStore from "./concurrency/cache-memory";
+import MultiWindow from "./multi-window/lib-multi-window";
+import MemoryMultiWindowStore from "./multi-window/memory-mw";
+import RedisMultiWindowStore from "./multi-window/cache-memory";
+import PostgresMultiWindowStore from "./multi-window/pg";
+import Hierarchical from "./hierarchical/lib-hierarchical";
 
 export * from "./types";
+export type { ShieldDetector, ShieldFinding, ShieldEvent, ShieldRequestInfo, ShieldAugmentedRequest } from "./shield/lib";
 
 export {
     ZShield,
@@ -25,11 +47,32 @@ export {
     PostgresLeakyBucketStore,
     LeakyBucket,
     FixedWindow,
+    SlidingWindowLog,
+    SlidingWindow,
+    GCRA,
+    ConcurrencyLimit,
+    MultiWindow,
+    Hierarchical,
     tokenBucket,
     MemoryFixedWindowStore,
     MemoryLeakyBucketStore,
+    RedisLeakyBucketStore,
     MemoryTokenBucketStore,
     RedisTokenBucketStore,
     RedisFixedWindowStore,
-    PostgresTokenBucketStore
+    PostgresTokenBucketStore,
+    MemorySlidingWindowLogStore,
+    RedisSlidingWindowLogStore,
+    PostgresSlidingWindowLogStore,
+    MemorySlidingWindowStore,
+    RedisSlidingWindowStore,
+    PostgresSlidingWindowStore,
+    MemoryGcraStore,
+    RedisGcraStore,
+    PostgresGcraStore,
+    MemoryConcurrencyStore,
+    RedisConcurrencyStore,
+    MemoryMultiWindowStore,
+    RedisMultiWindowStore,
+    PostgresMultiWindowStore
 };
@@ -0,0 +1,136 @@
+import { Redis as RedisClient } from 'ioredis';
+import { LUA_SCRIPTS } from './scripts';
+import type { Store, Options, ClientRateLimitInfo } from '../types';
+
+interface RedisStoreOptions {
+    client: RedisClient;
+    prefix?: string;
+}
+
+/**
+ * A `Store` implementation using the Leaky Bucket algorithm for rate limiting in Redis,
+ * so that the bucket of a client is shared by every node.
+ *
+ * @public
+ */
+export default class RedisLeakyBucketStore implements Store {
+    private client: RedisClient;
+
+    /**
+     * The maximum capacity of the bucket (i.e., allowed hits per window).
+     */
+    private bucketCapacity!: number;
+
+    /**
+     * The leak rate (i.e., number of hits drained per millisecond).
+     */
+    private leakRate!: number;
+
+    public prefix: string;
+
+    readonly localKeys = false;
+
+    constructor(options: RedisStoreOptions) {
+        this.client = options.client;
+        this.prefix = options.prefix ?? 'rl-lb:';
+    }
+
+    /**
+     * Initializes the store with the provided options.
+     *
+     * @param options {Options} - Options to configure the store.
+     */
+    init(options: Options): void {
+        this.bucketCapacity = typeof options.max === 'number' ? options.max : 10; // Default to 10 hits if max not provided
+        this.leakRate = this.bucketCapacity / (options.windowMs ?? 60000); // Default to 1-minute window
+    }
+
+    private prefixKey(key: string): string {
+        return `${this.prefix}${key}`;
+    }
+
+    /**
+     * Fetches a client's remaining capacity and reset time.
+     *
+     * @param key {string} - The identifier for the client.
+     * @returns {ClientRateLimitInfo | undefined} - Remaining capacity and reset time, or undefined if the client doesn't exist.
+     */
+    async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+        const [remaining, lastUpdated] = await this.client.hmget(
+            this.prefixKey(key),
+            'remaining',
+            'lastUpdated'
+        );
+        if (remaining === null || lastUpdated === null) return undefined;
+
+        // Account for the capacity that has leaked since the last update
+        const elapsedTime = Date.now() - Number(lastUpdated);
+        const leaked = elapsedTime * this.leakRate;
+
+        return {
+            totalHits: Math.min(Number(remaining) + leaked, this.bucketCapacity),
+            resetTime: new Date(Number(lastUpdated) + (this.bucketCapacity / this.leakRate)),
+        };
+    }
+
+    /**
+     * Increments a client's hit counter atomically.
+     *
+     * @param key {string} - The identifier for the client.
+     * @param amount {number} - The capacity the request takes up.
+     * @returns {ClientRateLimitInfo} - Updated remaining capacity (or the negative shortfall if the request did not fit) and reset time.
+     */
+    async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
+        const now = Date.now();
+
+        const [canConsume, remaining] = await this.client.eval(
+            LUA_SCRIPTS.CONSUME_CAPACITY,
+            1,
+            this.prefixKey(key),
+            now,
+            this.bucketCapacity,
+            this.leakRate,
+            amount
+        ) as [number, string];
+
+        return {
+            totalHits: canConsume === 1 ? Number(remaining) : Number(remaining) - amount,
+            resetTime: new Date(now + (this.bucketCapacity / this.leakRate)),
+        };
+    }
+
+    /**
+     * Decrements a client's hit counter.
+     *
+     * @param key {string} - The identifier for the client.
+     * @param amount {number} - The capacity to give back.
+     */
+    async decrement(key: string, amount = 1): Promise<void> {
+        await this.client.eval(
+            LUA_SCRIPTS.RETURN_CAPACITY,
+            1,
+            this.prefixKey(key),
+            this.bucketCapacity,
+            amount
+        );
+    }
+
+    /**
+     * Resets a specific client's hit counter.
+     *
+     * @param key {string} - The identifier for the client.
+     */
+    async resetKey(key: string): Promise<void> {
+        await this.client.del(this.prefixKey(key));
+    }
+
+    /**
+     * Resets all clients' hit counters.
+     */
+    async resetAll(): Promise<void> {
+        const keys = await this.client.keys(`${this.prefix}*`);
+        if (keys.length > 0) {
+            await this.client.del(...keys);
+        }
+    }
+}
@@ -1,10 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import debug from 'debug';
-import { ClientRateLimitInfo, IncrementResponse, Options } from '../types';
+import { ClientRateLimitInfo, DraftHeadersVersion, IncrementResponse, LeakyBucketQueueInfo, Options, RateLimitInfo, ValueDeterminingMiddleware } from '../types';
+import { setDraft6Headers, setDraft7Headers, setDraft8Headers, setRetryAfterHeader } from '../header';
+import { checkCost } from '../parseConfig';
 
 const log = debug('leaky-bucket');
 type Store = {
-  init?: (options: Options) => void
+  init?: (options: Options) => Promise<void> | void
 
   get?: (
     key: string,
@@ -12,8 +14,8 @@ type Store = {
     | Promise<ClientRateLimitInfo | undefined>
     | ClientRateLimitInfo
     | undefined
-  increment: (key: string) => Promise<IncrementResponse> | IncrementResponse
-  decrement: (key: string) => Promise<void> | void
+  increment: (key: string, amount?: number) => Promise<IncrementResponse> | IncrementResponse
+  decrement: (key: string, amount?: number) => Promise<void> | void
   resetKey: (key: string) => Promise<void> | void
   resetAll?: () => Promise<void> | void
   shutdown?: () => Promise<void> | void
@@ -25,6 +27,16 @@ interface Input {
   timeout?: number;
   interval?: number;
   store?: Store;
+  cost?: number | ValueDeterminingMiddleware<number>;
+  // Give every client its own queue instead of sharing one between everybody
+  queueByKey?: boolean;
+  keyGenerator?: ValueDeterminingMiddleware<string>;
+  // How long (in milliseconds) a request may wait in its queue before it is rejected
+  maxWait?: number;
+  requestPropertyName?: string;
+  standardHeaders?: boolean | DraftHeadersVersion;
+  // Name of the quota policy sent in the draft-8 headers
+  identifier?: string | ValueDeterminingMiddleware<string>;
 }
 
 interface QueueAction {
@@ -32,11 +44,17 @@ interface QueueAction {
   reject: (error: Error) => void;
   cost: number;
   isPause: boolean;
+  expiry?: Timeout;
 }
 
 
 type Timeout = ReturnType<typeof setTimeout>;
 
+// Thrown when a request does not fit in its queue, or has waited in it for too long
+export class QueueError extends Error {
+  name = 'QueueError';
+}
+
 export default class LeakyBucket {
   totalCost: number;
   capacity: number;
@@ -51,7 +69,32 @@ export default class LeakyBucket {
   emptyPromiseResolver?: () => void;
   emptyPromise?: Promise<void>;
   store?: Store;
-  constructor({ capacity = 60, timeout, interval = 60000 ,store}: Input = {}) {
+  cost: number | ValueDeterminingMiddleware<number>;
+  queueByKey: boolean;
+  keyGenerator: ValueDeterminingMiddleware<string>;
+  maxWait: number;
+  requestPropertyName: string;
+  standardHeaders: false | DraftHeadersVersion;
+  identifier?: string | ValueDeterminingMiddleware<string>;
+  buckets = new Map<string, LeakyBucket>();
+  gcTimer?: ReturnType<typeof setInterval>;
+  // The key the capacity of this bucket is kept under in the store
+  storeKey = 'global';
+  storeReady?: Promise<void>;
+  consuming = false;
+  constructor({
+    capacity = 60,
+    timeout,
+    interval = 60000,
+    store,
+    cost = 1,
+    queueByKey = false,
+    keyGenerator = (req: Request) => req.ip!,
+    maxWait,
+    requestPropertyName = 'rateLimit',
+    standardHeaders = false,
+    identifier,
+  }: Input = {}) {
     timeout = timeout ?? interval;
 
     this.queue = [];
@@ -64,9 +107,24 @@ export default class LeakyBucket {
     this.setTimeout(timeout);
     this.setInterval(interval);
     this.store = store;
+    if (store) {
+      // The store keeps the capacity of every bucket, so that all instances share it
+      this.storeReady = Promise.resolve(store.init?.({ max: capacity, windowMs: interval } as Options));
+      // An error is passed on to the requests that wait for the store
+      this.storeReady.catch(() => {});
+    }
+    // A cost function is checked every time it is called instead
+    this.cost = typeof cost === 'function' ? cost : checkCost(cost);
+    this.queueByKey = queueByKey;
+    this.keyGenerator = keyGenerator;
+    this.maxWait = maxWait ?? timeout;
+    this.requestPropertyName = requestPropertyName;
+    // `true` resolves to `draft-6`, like it does for the other limiters
+    this.standardHeaders = standardHeaders === true ? 'draft-6' : standardHeaders;
+    this.identifier = identifier;
   }
   
-  async throttle(cost = 1, append = true, isPause = false): Promise<void> {
+  async throttle(cost = 1, append = true, isPause = false, maxWait?: number): Promise<void> {
     
     const maxCurrentCapacity = this.getCurrentMaxCapacity();
     // if (this.store) {
@@ -77,13 +135,17 @@ export default class LeakyBucket {
     
     if (append && this.totalCost + cost > maxCurrentCapacity) {
       log(`Rejecting item: max capacity exceeded.`);
-      throw new Error(`Bucket overflow.`);
+      throw new QueueError(`Bucket overflow.`);
     }
 
     return new Promise((resolve, reject) => {
       const item: QueueAction = { resolve, reject, cost, isPause };
       this.totalCost += cost;
 
+      if (maxWait !== undefined) {
+        item.expiry = setTimeout(() => this.expire(item), maxWait);
+      }
+
       if (append) {
         this.queue.push(item);
         log(`Added item with cost ${cost}`);
@@ -98,14 +160,20 @@ export default class LeakyBucket {
   }
 
   startTimer() {
-    if (!this.timer && this.queue.length > 0) {
+    if (!this.timer && !this.consuming && this.queue.length > 0) {
       const item = this.getFirstItem();
       if (!item) return;
 
       log(`Processing item with cost ${item.cost}`);
+      if (this.store) {
+        this.consume(item, this.store);
+        return;
+      }
+
       this.refill();
 
       if (this.currentCapacity >= item.cost) {
+        clearTimeout(item.expiry);
         item.resolve();
         log(`Resolved item with cost ${item.cost}`);
         this.shiftQueue();
@@ -124,6 +192,75 @@ export default class LeakyBucket {
     }
   }
 
+  // Pay for the first item with capacity from the store, or wait for enough of
+  // it to leak out
+  async consume(item: QueueAction, store: Store) {
+    this.consuming = true;
+
+    try {
+      await this.storeReady;
+      const { totalHits } = await store.increment(this.storeKey, item.cost);
+      this.consuming = false;
+
+      // The store reports the shortfall as a negative number when the item did not fit
+      if (totalHits < 0) {
+        const timeToDelta = (-totalHits / this.refillRate) * 1000;
+
+        log(`Waiting ${timeToDelta} ms to process next item`);
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.startTimer();
+        }, timeToDelta);
+        return;
+      }
+
+      if (this.queue[0] === item) {
+        clearTimeout(item.expiry);
+        item.resolve();
+        log(`Resolved item with cost ${item.cost}`);
+        this.shiftQueue();
+        this.totalCost -= item.cost;
+      } else {
+        // The item expired while the store was being asked
+        await store.decrement(this.storeKey, item.cost);
+      }
+    } catch (error) {
+      this.consuming = false;
+
+      const index = this.queue.indexOf(item);
+      if (index >= 0) {
+        log(`Rejecting item with cost ${item.cost}: store error`);
+        clearTimeout(item.expiry);
+        this.queue.splice(index, 1);
+        this.totalCost -= item.cost;
+        item.reject(error as Error);
+      }
+    }
+
+    this.startTimer();
+  }
+
+  // Drop an item that has waited longer than it was allowed to
+  expire(item: QueueAction) {
+    const index = this.queue.indexOf(item);
+    if (index < 0) return;
+
+    log(`Rejecting item with cost ${item.cost}: waited too long`);
+    this.queue.splice(index, 1);
+    this.totalCost -= item.cost;
+    item.reject(new QueueError(`Queue wait exceeded.`));
+
+    if (this.queue.length === 0 && this.emptyPromiseResolver) {
+      this.emptyPromiseResolver();
+    }
+
+    // The head of the queue changed, so the wait for it has to be worked out again
+    if (index === 0) {
+      this.stopTimer();
+      this.startTimer();
+    }
+  }
+
   shiftQueue() {
     this.queue.shift();
     if (this.queue.length === 0 && this.emptyPromiseResolver) {
@@ -148,10 +285,18 @@ export default class LeakyBucket {
     log(`Ending bucket`);
     this.stopTimer();
     this.clear();
+
+    if (this.gcTimer) {
+      clearInterval(this.gcTimer);
+      this.gcTimer = undefined;
+    }
+    this.buckets.forEach((bucket) => bucket.end());
+    this.buckets.clear();
   }
 
   clear() {
     log(`Clearing queue`);
+    this.queue.forEach((item) => clearTimeout(item.expiry));
     this.queue = [];
     this.totalCost = 0;
   }
@@ -206,8 +351,9 @@ export default class LeakyBucket {
     if (index >= 0) {
       this.queue.splice(index).forEach((item) => {
         if (!item.isPause) {
+          clearTimeout(item.expiry);
           log(`Rejecting item with cost ${item.cost} due to queue overflow`);
-          item.reject(new Error(`Queue overflow`));
+          item.reject(new QueueError(`Queue overflow`));
           this.totalCost -= item.cost;
         }
       });
@@ -258,20 +404,141 @@ export default class LeakyBucket {
     return this;
   }
 
+  // Get the queue of a single client, creating it on first use
+  getBucket(key: string): LeakyBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new LeakyBucket({
+        capacity: this.capacity,
+        timeout: this.timeout,
+        interval: this.interval,
+      });
+      bucket.store = this.store;
+      bucket.storeKey = key;
+      bucket.storeReady = this.storeReady;
+      this.buckets.set(key, bucket);
+      log(`Created bucket for ${key}`);
+    }
+
+    // Sweep the idle buckets once every interval, for as long as there are any
+    if (!this.gcTimer) {
+      this.gcTimer = setInterval(() => this.clearIdleBuckets(), this.interval);
+      if (this.gcTimer.unref) this.gcTimer.unref();
+    }
+
+    return bucket;
+  }
+
+  // Forget the clients with nothing queued and a bucket that has refilled completely
+  clearIdleBuckets() {
+    this.buckets.forEach((bucket, key) => {
+      bucket.refill();
+      if (bucket.queue.length === 0 && bucket.currentCapacity >= bucket.capacity) {
+        bucket.end();
+        this.buckets.delete(key);
+        log(`Removed idle bucket for ${key}`);
+      }
+    });
+
+    if (this.buckets.size === 0 && this.gcTimer) {
+      clearInterval(this.gcTimer);
+      this.gcTimer = undefined;
+    }
+  }
+
   private updateVariables() {
     this.refillRate = this.capacity / (this.interval / 1000);
     log(`Updated refill rate: ${this.refillRate}`);
   }
 
+  // Wait for a slot in the queue of the client making the request
+  async waitInQueue(req: Request, key: string, bucket: LeakyBucket, cost: number): Promise<void> {
+    const info: LeakyBucketQueueInfo = {
+      key,
+      queueDepth: bucket.queue.length,
+      queuedCost: bucket.totalCost,
+      waitedMs: 0,
+    };
+    (req as Request & Record<string, LeakyBucketQueueInfo>)[this.requestPropertyName] = info;
+
+    const queuedAt = Date.now();
+    await bucket.throttle(cost, true, false, this.maxWait);
+    info.waitedMs = Date.now() - queuedAt;
+  }
+
+  // The capacity left in a bucket, from the store if it keeps it
+  async getCapacity(bucket: LeakyBucket): Promise<number> {
+    if (bucket.store) {
+      const state = await bucket.store.get?.(bucket.storeKey);
+      return state?.totalHits ?? bucket.capacity;
+    }
+
+    bucket.refill();
+    return bucket.currentCapacity;
+  }
+
+  // Set the standardized `RateLimit-*` headers from the state of a bucket
+  async setHeaders(req: Request, res: Response, bucket: LeakyBucket, key: string): Promise<RateLimitInfo> {
+    const capacity = Math.max(await this.getCapacity(bucket), 0);
+    const remaining = Math.floor(capacity);
+    const info: RateLimitInfo = {
+      limit: bucket.capacity,
+      used: bucket.capacity - remaining,
+      remaining,
+      // The bucket is back to full capacity once everything in it has leaked out
+      resetTime: new Date(Date.now() + ((bucket.capacity - capacity) / bucket.refillRate) * 1000),
+    };
+
+    if (this.standardHeaders === 'draft-6') {
+      setDraft6Headers(res, info, this.interval);
+    } else if (this.standardHeaders === 'draft-7') {
+      setDraft7Headers(res, info, this.interval);
+    } else if (this.standardHeaders === 'draft-8') {
+      const name =
+        typeof this.identifier === 'function'
+          ? await this.identifier(req, res)
+          : this.identifier ?? `${this.capacity}-in-${Math.ceil(this.interval / 1000)}sec`;
+      setDraft8Headers(res, info, this.interval, name, key);
+    }
+
+    return info;
+  }
+
   // Express middleware
   rateLimitMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+    const handle = async () => {
+      const cost = checkCost(await (typeof this.cost === 'function' ? this.cost(req, res) : this.cost));
+
+      // The key is only needed to pick the client's queue, or for the partition
+      // key in the draft-8 headers
+      const key =
+        this.queueByKey || this.standardHeaders === 'draft-8' ? await this.keyGenerator(req, res) : '';
+      const bucket = this.queueByKey ? this.getBucket(key) : this;
+
+      try {
+        await (this.queueByKey ? this.waitInQueue(req, key, bucket, cost) : this.throttle(cost));
+      } catch (err) {
+        if (this.standardHeaders) {
+          setRetryAfterHeader(res, await this.setHeaders(req, res, bucket, key), this.interval);
+        }
+        throw err;
+      }
 
-    this.throttle()  // throttle can be customized with cost parameters if needed
+      if (this.standardHeaders) await this.setHeaders(req, res, bucket, key);
+    };
+
+    handle()
       .then(() => {
         next();  // Proceed to the next middleware or route handler
       })
       .catch((err: Error) => {
-        res.status(429).json({ error: err.message });  // Handle errors if rate limit exceeded
+        // Only a full queue or a wait that took too long is rate limiting,
+        // anything else (such as a store error) is passed on
+        if (err instanceof QueueError) {
+          res.status(429).json({ error: err.message });
+        } else {
+          next(err);
+        }
       });
   };
 }
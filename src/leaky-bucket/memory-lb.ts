@@ -66,24 +66,25 @@ export default class MemoryLeakyBucketStore implements Store {
      * Increments a client's hit counter.
      *
      * @param key {string} - The identifier for the client.
-     * @returns {ClientRateLimitInfo} - Updated remaining capacity and reset time.
+     * @param amount {number} - The capacity the request takes up.
+     * @returns {ClientRateLimitInfo} - Updated remaining capacity (or the negative shortfall if the request did not fit) and reset time.
      */
-    async increment(key: string): Promise<ClientRateLimitInfo> {
+    async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
         const client = this.getClient(key);
 
         // Update the bucket to reflect leaks
         this.updateBucket(client);
 
-        // If no capacity remains, return with reset time
-        if (client.remaining <= 0) {
+        // If not enough capacity remains, return the shortfall with reset time
+        if (client.remaining < amount) {
             return {
-                totalHits: 0,
+                totalHits: client.remaining - amount,
                 resetTime: new Date(client.lastUpdated + (this.bucketCapacity / this.leakRate)),
             };
         }
 
         // Decrease remaining capacity
-        client.remaining--;
+        client.remaining -= amount;
 
         return {
             totalHits: client.remaining,
@@ -95,11 +96,12 @@ export default class MemoryLeakyBucketStore implements Store {
      * Decrements a client's hit counter.
      *
      * @param key {string} - The identifier for the client.
+     * @param amount {number} - The capacity to give back.
      */
-    async decrement(key: string): Promise<void> {
+    async decrement(key: string, amount = 1): Promise<void> {
         const client = this.clients.get(key);
         if (client) {
-            client.remaining = Math.min(client.remaining + 1, this.bucketCapacity);
+            client.remaining = Math.min(client.remaining + amount, this.bucketCapacity);
         }
     }
 
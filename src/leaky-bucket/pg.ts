@@ -18,6 +18,8 @@ type Client = {
 export default class PostgresLeakyBucketStore implements Store {
   private pool: Pool;
   private windowMs!: number;
+  private bucketCapacity!: number;
+  private leakRate!: number;
 
   constructor(pool: Pool) {
     this.pool = pool;
@@ -29,6 +31,8 @@ export default class PostgresLeakyBucketStore implements Store {
    */
   async init(options: Options): Promise<void> {
     this.windowMs = options.windowMs;
+    this.bucketCapacity = typeof options.max === 'number' ? options.max : 10; // Default to 10 hits if max not provided
+    this.leakRate = this.bucketCapacity / (options.windowMs ?? 60000); // Default to 1-minute window
 
     // Create the Leaky_bucket table if it doesn't already exist
     await this.pool.query(`
@@ -77,9 +81,10 @@ export default class PostgresLeakyBucketStore implements Store {
   /**
    * Increments a client's hit counter or creates a new record if the client doesn't exist.
    * @param key {string} - The identifier for a client.
-   * @returns {ClientRateLimitInfo} - The updated rate limit info for the client.
+   * @param amount {number} - The capacity the request takes up.
+   * @returns {ClientRateLimitInfo} - The updated rate limit info for the client, with the negative shortfall if the request did not fit.
    */
-  async increment(key: string): Promise<ClientRateLimitInfo> {
+  async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
     const now = new Date();
 
     await this.pool.query('BEGIN'); // Start a transaction
@@ -103,8 +108,8 @@ export default class PostgresLeakyBucketStore implements Store {
         const leaked = elapsedTime * leak_rate;
         const newRemaining = Math.min(remaining_capacity + leaked, bucket_capacity);
 
-        if (newRemaining > 0) {
-          totalHits = newRemaining - 1;
+        if (newRemaining >= amount) {
+          totalHits = newRemaining - amount;
           await this.pool.query(
             `UPDATE Leaky_bucket
              SET remaining_capacity = $1, last_updated = $2
@@ -113,16 +118,19 @@ export default class PostgresLeakyBucketStore implements Store {
           );
           resetTime = new Date(now.getTime() + bucket_capacity / leak_rate);
         } else {
-          totalHits = 0;
+          totalHits = newRemaining - amount;
           resetTime = new Date(now.getTime() + bucket_capacity / leak_rate);
         }
       } else {
-        // Insert a new record if client doesn't exist
-        const bucketCapacity = 10; // Default bucket capacity
-        const leakRate = 0.1; // Default leak rate
+        // Insert a new record if client doesn't exist, starting from a full bucket
+        const { bucketCapacity, leakRate } = this;
 
-        totalHits = bucketCapacity - 1;
+        totalHits = bucketCapacity - amount;
         resetTime = new Date(now.getTime() + bucketCapacity / leakRate);
+        if (totalHits < 0) {
+          await this.pool.query('COMMIT');
+          return { totalHits, resetTime };
+        }
 
         await this.pool.query(
           `INSERT INTO Leaky_bucket (client_id, remaining_capacity, last_updated, bucket_capacity, leak_rate)
@@ -141,10 +149,11 @@ export default class PostgresLeakyBucketStore implements Store {
   }
 
   /**
-   * Decrements the remaining capacity for a client.
+   * Gives capacity back to a client, the same way the memory store does.
    * @param key {string} - The identifier for a client.
+   * @param amount {number} - The capacity to give back.
    */
-  async decrement(key: string): Promise<void> {
+  async decrement(key: string, amount = 1): Promise<void> {
     const now = new Date();
 
     await this.pool.query('BEGIN'); // Start a transaction
@@ -165,15 +174,13 @@ export default class PostgresLeakyBucketStore implements Store {
         const leaked = elapsedTime * leak_rate;
         const newRemaining = Math.min(remaining_capacity + leaked, bucket_capacity);
 
-        if (newRemaining > 0) {
-          const updatedRemaining = newRemaining - 1;
-          await this.pool.query(
-            `UPDATE Leaky_bucket
-             SET remaining_capacity = $1, last_updated = $2
-             WHERE client_id = $3`,
-            [updatedRemaining, now, key]
-          );
-        }
+        const updatedRemaining = Math.min(newRemaining + amount, bucket_capacity);
+        await this.pool.query(
+          `UPDATE Leaky_bucket
+           SET remaining_capacity = $1, last_updated = $2
+           WHERE client_id = $3`,
+          [updatedRemaining, now, key]
+        );
       }
 
       await this.pool.query('COMMIT'); // Commit the transaction
@@ -188,7 +195,7 @@ export default class PostgresLeakyBucketStore implements Store {
    * @param key {string} - The identifier for a client.
    */
   async resetKey(key: string): Promise<void> {
-    await this.pool.query(`DELETE FROM Leaky_bucket WHERE client_id = $1, [key]`);
+    await this.pool.query(`DELETE FROM Leaky_bucket WHERE client_id = $1`, [key]);
   }
 
   /**
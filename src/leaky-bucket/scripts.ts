@@ -0,0 +1,55 @@
+// src/leaky-bucket/scripts.ts
+
+export const LUA_SCRIPTS = {
+  // Leak the bucket since the last update, then take the request's capacity if enough is left
+  CONSUME_CAPACITY: `
+      local key = KEYS[1]
+      local now = tonumber(ARGV[1])
+      local bucketCapacity = tonumber(ARGV[2])
+      local leakRate = tonumber(ARGV[3])
+      local amount = tonumber(ARGV[4])
+
+      -- Get current bucket state, new keys start with a full bucket
+      local bucketState = redis.call('HMGET', key, 'remaining', 'lastUpdated')
+      local remaining = tonumber(bucketState[1]) or bucketCapacity
+      local lastUpdated = tonumber(bucketState[2]) or now
+
+      -- Give back the capacity that has leaked since the last update
+      local elapsedTime = math.max(0, now - lastUpdated)
+      remaining = math.min(remaining + elapsedTime * leakRate, bucketCapacity)
+
+      -- Consume capacity if available
+      local canConsume = remaining >= amount
+      if canConsume then
+          remaining = remaining - amount
+      end
+
+      redis.call('HSET', key, 'remaining', tostring(remaining), 'lastUpdated', now)
+
+      -- Expire the key once the bucket would have leaked back to full
+      redis.call('PEXPIRE', key, math.ceil(bucketCapacity / leakRate))
+
+      -- Return results: [canConsume, remaining], the remaining capacity is
+      -- fractional so return it as a string
+      return {
+          canConsume and 1 or 0,
+          tostring(remaining)
+      }
+  `,
+
+  // Give the request's capacity back to the bucket
+  RETURN_CAPACITY: `
+      local key = KEYS[1]
+      local bucketCapacity = tonumber(ARGV[1])
+      local amount = tonumber(ARGV[2])
+
+      local remaining = tonumber(redis.call('HGET', key, 'remaining'))
+      if not remaining then
+          return 0
+      end
+
+      redis.call('HSET', key, 'remaining', tostring(math.min(remaining + amount, bucketCapacity)))
+
+      return 1
+  `
+};
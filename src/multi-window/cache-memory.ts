@@ -0,0 +1,110 @@
+import scripts from './scripts'
+import type {
+  MultiWindowStore,
+  MultiWindowOptions,
+  MultiWindowIncrementResponse,
+  ClientRateLimitInfo,
+  WindowPolicy,
+} from '../types'
+import { Redis as RedisClient } from 'ioredis';
+
+interface RedisStoreOptions {
+  client: RedisClient
+  prefix?: string
+}
+
+export default class MultiWindowRedisStore implements MultiWindowStore {
+  public client: RedisClient
+  public prefix: string
+  public windows!: WindowPolicy[]
+
+  localKeys = false
+
+  constructor(options: RedisStoreOptions) {
+    this.client = options.client
+    this.prefix = options.prefix ?? 'rl-mw:'
+  }
+
+  init(options: MultiWindowOptions) {
+    this.windows = options.windows
+  }
+
+  private prefixKey(key: string): string {
+    return `${this.prefix}${key}`
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo[] | undefined> {
+    const fields = await this.client.hgetall(this.prefixKey(key))
+    if (Object.keys(fields).length === 0) return undefined
+
+    const now = Date.now()
+    return this.windows.map((window, index) => {
+      const reset = Number(fields[`reset:${index + 1}`] ?? 0)
+      if (reset <= now) {
+        return { totalHits: 0, resetTime: new Date(now + window.windowMs) }
+      }
+
+      return {
+        totalHits: Number(fields[`hits:${index + 1}`] ?? 0),
+        resetTime: new Date(reset),
+      }
+    })
+  }
+
+  async increment(key: string, amount = 1): Promise<MultiWindowIncrementResponse> {
+    const results = await this.client.eval(
+      scripts.increment,
+      1,
+      this.prefixKey(key),
+      Date.now().toString(),
+      amount.toString(),
+      ...this.windows.flatMap((window) => [
+        window.windowMs.toString(),
+        window.limit.toString(),
+      ])
+    )
+
+    if (!Array.isArray(results))
+      throw new TypeError('Expected result to be array of values')
+
+    if (results.length !== 1 + this.windows.length * 2)
+      throw new Error(
+        `Expected ${1 + this.windows.length * 2} replies, got ${results.length}`
+      )
+
+    return {
+      accepted: Number(results[0]) === 1,
+      windows: this.windows.map((_window, index) => ({
+        totalHits: Number(results[1 + index * 2]),
+        resetTime: new Date(Number(results[2 + index * 2])),
+      })),
+    }
+  }
+
+  async decrement(key: string, amount = 1) {
+    await this.client.eval(
+      scripts.decrement,
+      1,
+      this.prefixKey(key),
+      Date.now().toString(),
+      amount.toString(),
+      this.windows.length.toString()
+    )
+  }
+
+  async resetKey(key: string) {
+    await this.client.del(this.prefixKey(key))
+  }
+
+  async resetAll() {
+    // Find all keys with the prefix and delete them
+    const keys = await this.client.keys(`${this.prefix}*`)
+    if (keys.length > 0) {
+      await this.client.del(...keys)
+    }
+  }
+
+  async shutdown() {
+    // For ioredis, typically no special shutdown is needed
+  }
+}
@@ -0,0 +1,307 @@
+import type { Request, Response, NextFunction } from 'express'
+import type {
+	MultiWindowOptions,
+	MultiWindowRequestHandler,
+	MultiWindowRateLimitInfo,
+	RateLimitInfo,
+	ValueDeterminingMiddleware,
+	WindowPolicy,
+} from '../types'
+import {
+	setDraft6Headers,
+	setDraft7Headers,
+	setDraft8Headers,
+	setPoliciesHeader,
+	setRetryAfterHeader,
+} from '../header'
+import { handleAsyncErrors, checkCost } from '../parseConfig'
+import { getValidations } from '../validation'
+import MemoryMultiWindowStore from './memory-mw'
+
+/**
+ *
+ * Create an instance of multi-window rate-limiting middleware for Express.
+ *
+ * Enforces several fixed windows at once (e.g. 10 per second, 1000 per hour
+ * and 20000 per day), checking all of them in a single call to the store. A
+ * request is only counted if it fits into every window, and is otherwise
+ * rejected on the window that will take the longest to free up.
+ *
+ * @param passedOptions {MultiWindowOptions} - Options to configure the rate limiter.
+ *
+ * @returns {MultiWindowRequestHandler} - The middleware that rate-limits clients based on your configuration.
+ *
+ * @public
+ */
+const multiWindow = (
+	passedOptions?: Partial<MultiWindowOptions>,
+): MultiWindowRequestHandler => {
+	// Passing undefined should be equivalent to not passing an option at all.
+	const notUndefinedOptions = Object.fromEntries(
+		Object.entries(passedOptions ?? {}).filter(([, value]) => value !== undefined),
+	) as Partial<MultiWindowOptions>
+
+	const validations = getValidations(notUndefinedOptions.validate ?? false)
+	validations.validationsConfig()
+
+	// The default value for the `standardHeaders` option is `false`. If set to
+	// `true`, it resolve to `draft-6`.
+	let standardHeaders = notUndefinedOptions.standardHeaders ?? false
+	if (standardHeaders === true) standardHeaders = 'draft-6'
+
+	const options: MultiWindowOptions = {
+		windows: [],
+		cost: 1,
+		message: 'Too many requests, please try again later.',
+		statusCode: 429,
+		requestPropertyName: 'rateLimit',
+		skipFailedRequests: false,
+		skipSuccessfulRequests: false,
+		requestWasSuccessful: (_request: Request, response: Response): boolean =>
+			response.statusCode < 400,
+		skip: (_request: Request, _response: Response): boolean => false,
+		keyGenerator(request: Request, _response: Response): string {
+			// Run the validation checks on the IP and headers to make sure everything
+			// is working as intended.
+			validations.ip(request.ip)
+			validations.trustProxy(request)
+			validations.xForwardedForHeader(request)
+
+			// By default, use the IP address to rate limit users.
+			return request.ip!
+		},
+		async handler(
+			request: Request,
+			response: Response,
+			_next: NextFunction,
+			_optionsUsed: MultiWindowOptions,
+		): Promise<void> {
+			response.status(options.statusCode)
+			const message: unknown =
+				typeof options.message === 'function'
+					? await (options.message as ValueDeterminingMiddleware<any>)(
+							request,
+							response,
+					  )
+					: options.message
+
+			// Send the response if writable.
+			if (!response.writableEnded) {
+				response.send(message)
+			}
+		},
+		validate: false,
+		passOnStoreError: false,
+		// Allow the default options to be overriden by the options passed to the middleware.
+		...notUndefinedOptions,
+		standardHeaders,
+		store: notUndefinedOptions.store ?? new MemoryMultiWindowStore(),
+	}
+
+	// The stores need to know every window up front.
+	if (
+		options.windows.length === 0 ||
+		options.windows.some(
+			(window) =>
+				!(window.windowMs > 0) ||
+				typeof window.limit !== 'number' ||
+				window.limit < 0,
+		)
+	) {
+		throw new TypeError(
+			'The multi-window rate limiter requires `windows` to be a list of `{ windowMs, limit }` pairs, with a positive `windowMs` and a non-negative `limit`.',
+		)
+	}
+
+	// A cost function is checked every time it is called instead
+	if (typeof options.cost !== 'function') checkCost(options.cost)
+
+	// Ensure that the store passed implements the `MultiWindowStore` interface
+	if (
+		typeof options.store.increment !== 'function' ||
+		typeof options.store.decrement !== 'function' ||
+		typeof options.store.resetKey !== 'function'
+	) {
+		throw new TypeError(
+			'An invalid store was passed. Please ensure that the store is a class that implements the `MultiWindowStore` interface.',
+		)
+	}
+
+	// Call the `init` method on the store, if it exists
+	if (typeof options.store.init === 'function') options.store.init(options)
+
+	const middleware = handleAsyncErrors(
+		async (request: Request, response: Response, next: NextFunction) => {
+			// First check if we should skip the request
+			const skip = await options.skip(request, response)
+			if (skip) {
+				next()
+				return
+			}
+
+			const key = await options.keyGenerator(request, response)
+
+			// Get the cost (number of hits) of this request.
+			const retrieveCost =
+				typeof options.cost === 'function'
+					? options.cost(request, response)
+					: options.cost
+			const cost = checkCost(await retrieveCost)
+
+			// Count the request against every window in one go.
+			let accepted
+			let counters
+			try {
+				;({ accepted, windows: counters } = await options.store.increment(
+					key,
+					cost,
+				))
+			} catch (error) {
+				if (options.passOnStoreError) {
+					console.error(
+						'express-rate-limit: error from store, allowing request without rate-limiting.',
+						error,
+					)
+					next()
+					return
+				}
+
+				throw error
+			}
+
+			const windows = options.windows.map((window, index) => ({
+				windowMs: window.windowMs,
+				limit: window.limit,
+				used: counters[index].totalHits,
+				remaining: Math.max(window.limit - counters[index].totalHits, 0),
+				resetTime: counters[index].resetTime,
+			}))
+
+			// Report the window that is holding the client back the most: if the
+			// request was rejected, the exhausted window that frees up last,
+			// otherwise the one with the fewest requests left.
+			const candidates = accepted
+				? windows
+				: windows.filter((window) => window.used + cost > window.limit)
+			const tightest = candidates.reduce((tightest, window) => {
+				if (accepted && window.remaining !== tightest.remaining)
+					return window.remaining < tightest.remaining ? window : tightest
+
+				return getResetMs(window) > getResetMs(tightest) ? window : tightest
+			})
+			const index = windows.indexOf(tightest)
+
+			const info: MultiWindowRateLimitInfo = {
+				limit: tightest.limit,
+				used: tightest.used,
+				remaining: tightest.remaining,
+				resetTime: tightest.resetTime,
+				windows,
+			}
+			;(request as Request & Record<string, MultiWindowRateLimitInfo>)[
+				options.requestPropertyName
+			] = info
+
+			// Set the standardized `RateLimit-*` headers on the response object if
+			// enabled.
+			if (options.standardHeaders && !response.headersSent) {
+				if (options.standardHeaders === 'draft-6') {
+					setDraft6Headers(response, info, tightest.windowMs)
+					setPoliciesHeader(response, windows)
+				} else if (options.standardHeaders === 'draft-7') {
+					setDraft7Headers(response, info, tightest.windowMs)
+					setPoliciesHeader(response, windows)
+				} else if (options.standardHeaders === 'draft-8') {
+					// Every window gets a policy (and a `RateLimit` entry) of its own.
+					for (const [position, window] of windows.entries()) {
+						setDraft8Headers(
+							response,
+							window,
+							window.windowMs,
+							getIdentifier(options.windows[position]),
+							key,
+						)
+					}
+				}
+			}
+
+			// Disable the validations, since they should have run at least once by now.
+			validations.disable()
+
+			// Rejected requests were never counted, so there is nothing to give back.
+			if (!accepted) {
+				if (options.standardHeaders) {
+					setRetryAfterHeader(response, info, options.windows[index].windowMs)
+				}
+
+				options.handler(request, response, next, options)
+				return
+			}
+
+			// If we are to skip failed/successfull requests, decrement the
+			// counters accordingly once we know the status code of the request
+			if (options.skipFailedRequests || options.skipSuccessfulRequests) {
+				let decremented = false
+				const decrementKey = async () => {
+					if (!decremented) {
+						await options.store.decrement(key, cost)
+						decremented = true
+					}
+				}
+
+				if (options.skipFailedRequests) {
+					response.on('finish', async () => {
+						if (!(await options.requestWasSuccessful(request, response)))
+							await decrementKey()
+					})
+					response.on('close', async () => {
+						if (!response.writableEnded) await decrementKey()
+					})
+					response.on('error', async () => {
+						await decrementKey()
+					})
+				}
+
+				if (options.skipSuccessfulRequests) {
+					response.on('finish', async () => {
+						if (await options.requestWasSuccessful(request, response))
+							await decrementKey()
+					})
+				}
+			}
+
+			next()
+		},
+	)
+
+	const getThrowFn = () => {
+		throw new Error('The current store does not support the get/getKey method')
+	}
+
+	// Export the store's function to reset and fetch the rate limit info for a
+	// client based on their identifier.
+	;(middleware as MultiWindowRequestHandler).resetKey =
+		options.store.resetKey.bind(options.store)
+	;(middleware as MultiWindowRequestHandler).getKey =
+		typeof options.store.get === 'function'
+			? options.store.get.bind(options.store)
+			: getThrowFn
+
+	return middleware as MultiWindowRequestHandler
+}
+
+/**
+ * Returns the time a window frees up, or the epoch if the store did not say.
+ */
+const getResetMs = (info: RateLimitInfo): number =>
+	info.resetTime?.getTime() ?? 0
+
+/**
+ * Returns the name of the quota policy of a window, e.g. `1000-in-3600sec`.
+ */
+const getIdentifier = (window: WindowPolicy): string =>
+	window.identifier ??
+	`${window.limit}-in-${Math.ceil(window.windowMs / 1000)}sec`
+
+// Export it to the world!
+export default multiWindow
@@ -0,0 +1,196 @@
+import type {
+	MultiWindowStore,
+	MultiWindowOptions,
+	MultiWindowIncrementResponse,
+	ClientRateLimitInfo,
+	WindowPolicy,
+} from '../types'
+
+/**
+ * A `MultiWindowStore` that keeps a fixed window hit counter per configured
+ * window for each client in memory.
+ *
+ * @public
+ */
+export default class MemoryMultiWindowStore implements MultiWindowStore {
+	/**
+	 * The windows enforced for every client, in the order they were configured.
+	 */
+	windows!: WindowPolicy[]
+
+	/**
+	 * The hit counters of each client, one per window.
+	 */
+	clients = new Map<string, ClientRateLimitInfo[]>()
+
+	/**
+	 * A reference to the active timer.
+	 */
+	interval?: NodeJS.Timeout
+
+	/**
+	 * Confirmation that the keys incremented in once instance of MemoryStore
+	 * cannot affect other instances.
+	 */
+	localKeys = true
+
+	/**
+	 * Method that initializes the store.
+	 *
+	 * @param options {MultiWindowOptions} - The options used to setup the middleware.
+	 */
+	init(options: MultiWindowOptions): void {
+		this.windows = options.windows
+
+		// Indicates that init was called more than once.
+		// Could happen if a store was shared between multiple instances.
+		if (this.interval) clearInterval(this.interval)
+
+		// Drop the clients whose windows have all expired, as often as the
+		// shortest window comes to an end.
+		const shortestWindowMs = Math.min(
+			...this.windows.map((window) => window.windowMs),
+		)
+		this.interval = setInterval(() => {
+			this.clearExpired()
+		}, shortestWindowMs)
+
+		// Cleaning up the interval will be taken care of by the `shutdown` method.
+		if (this.interval.unref) this.interval.unref()
+	}
+
+	/**
+	 * Method to fetch a client's hit counts and reset times.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 *
+	 * @returns {ClientRateLimitInfo[] | undefined} - The number of hits and reset time for each window.
+	 *
+	 * @public
+	 */
+	async get(key: string): Promise<ClientRateLimitInfo[] | undefined> {
+		const counters = this.clients.get(key)
+		if (!counters) return undefined
+
+		return this.resetExpired(counters)
+	}
+
+	/**
+	 * Method to count a request against every window, if it fits into all of
+	 * them.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 * @param amount {number} - The number of hits to record.
+	 *
+	 * @returns {MultiWindowIncrementResponse} - Whether the request was counted, and the hit counts for each window.
+	 *
+	 * @public
+	 */
+	async increment(
+		key: string,
+		amount = 1,
+	): Promise<MultiWindowIncrementResponse> {
+		const counters = this.resetExpired(this.clients.get(key) ?? [])
+		this.clients.set(key, counters)
+
+		const accepted = counters.every(
+			(counter, index) =>
+				counter.totalHits + amount <= this.windows[index].limit,
+		)
+		if (accepted) {
+			for (const counter of counters) counter.totalHits += amount
+		}
+
+		return {
+			accepted,
+			windows: counters.map((counter) => ({ ...counter })),
+		}
+	}
+
+	/**
+	 * Method to take hits back from every window of a client.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 * @param amount {number} - The number of hits to take back.
+	 *
+	 * @public
+	 */
+	async decrement(key: string, amount = 1): Promise<void> {
+		const counters = this.clients.get(key)
+		if (!counters) return
+
+		for (const counter of this.resetExpired(counters)) {
+			counter.totalHits = Math.max(counter.totalHits - amount, 0)
+		}
+	}
+
+	/**
+	 * Method to reset a client's hit counters.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 *
+	 * @public
+	 */
+	async resetKey(key: string): Promise<void> {
+		this.clients.delete(key)
+	}
+
+	/**
+	 * Method to reset everyone's hit counters.
+	 *
+	 * @public
+	 */
+	async resetAll(): Promise<void> {
+		this.clients.clear()
+	}
+
+	/**
+	 * Method to stop the timer (if currently running) and prevent any memory
+	 * leaks.
+	 *
+	 * @public
+	 */
+	shutdown(): void {
+		clearInterval(this.interval)
+		void this.resetAll()
+	}
+
+	/**
+	 * Starts a new window for every counter whose window has come to an end,
+	 * and creates the counters a client does not have yet.
+	 *
+	 * @param counters {ClientRateLimitInfo[]} - The hit counters of a client.
+	 * @param now {number} - The current time.
+	 *
+	 * @returns {ClientRateLimitInfo[]} - The same counters, to allow for chaining.
+	 */
+	private resetExpired(
+		counters: ClientRateLimitInfo[],
+		now = Date.now(),
+	): ClientRateLimitInfo[] {
+		this.windows.forEach((window, index) => {
+			const counter = counters[index]
+			if (!counter || counter.resetTime!.getTime() <= now) {
+				counters[index] = {
+					totalHits: 0,
+					resetTime: new Date(now + window.windowMs),
+				}
+			}
+		})
+
+		return counters
+	}
+
+	/**
+	 * Removes the clients whose windows have all come to an end.
+	 *
+	 * This function is called every time the shortest window ends.
+	 */
+	private clearExpired(): void {
+		const now = Date.now()
+		for (const [key, counters] of this.clients) {
+			if (counters.every((counter) => counter.resetTime!.getTime() <= now))
+				this.clients.delete(key)
+		}
+	}
+}
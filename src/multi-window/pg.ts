@@ -0,0 +1,129 @@
+import { Pool } from 'pg'; // PostgreSQL client library
+import type {
+  MultiWindowStore,
+  MultiWindowOptions,
+  MultiWindowIncrementResponse,
+  ClientRateLimitInfo,
+  WindowPolicy,
+} from '../types';
+
+export default class PostgresMultiWindowStore implements MultiWindowStore {
+  private pool: Pool;
+  private windows!: WindowPolicy[];
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  // Initialize the store by creating the table if it doesn't exist
+  async init(options: MultiWindowOptions): Promise<void> {
+    this.windows = options.windows;
+
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS multi_window (
+        key TEXT NOT NULL,
+        window_ms BIGINT NOT NULL,
+        hits INTEGER NOT NULL,
+        reset_time BIGINT NOT NULL,
+        PRIMARY KEY (key, window_ms)
+      )
+    `);
+  }
+
+  // Get the hit counts and reset times of every window for a specific key
+  async get(key: string): Promise<ClientRateLimitInfo[] | undefined> {
+    const result = await this.pool.query(
+      'SELECT window_ms, hits, reset_time FROM multi_window WHERE key = $1',
+      [key]
+    );
+    if (result.rows.length === 0) return undefined;
+
+    return this.getCounters(result.rows, Date.now());
+  }
+
+  // Count the request against every window, if it fits into all of them
+  async increment(key: string, amount = 1): Promise<MultiWindowIncrementResponse> {
+    const now = Date.now();
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialize concurrent hits for the same key
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [key]);
+
+      const result = await client.query(
+        'SELECT window_ms, hits, reset_time FROM multi_window WHERE key = $1',
+        [key]
+      );
+      const counters = this.getCounters(result.rows, now);
+
+      const accepted = counters.every(
+        (counter, index) => counter.totalHits + amount <= this.windows[index].limit
+      );
+
+      if (accepted) {
+        for (const [index, counter] of counters.entries()) {
+          counter.totalHits += amount;
+          await client.query(
+            `INSERT INTO multi_window (key, window_ms, hits, reset_time)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT (key, window_ms)
+             DO UPDATE SET hits = $3, reset_time = $4`,
+            [key, this.windows[index].windowMs, counter.totalHits, counter.resetTime!.getTime()]
+          );
+        }
+      }
+
+      await client.query('COMMIT');
+
+      return { accepted, windows: counters };
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Take hits back from every window of a key that is still running
+  async decrement(key: string, amount = 1): Promise<void> {
+    await this.pool.query(
+      `UPDATE multi_window
+       SET hits = GREATEST(hits - $1, 0)
+       WHERE key = $2 AND reset_time > $3`,
+      [amount, key, Date.now()]
+    );
+  }
+
+  // Reset the hit counters for a specific key
+  async resetKey(key: string): Promise<void> {
+    await this.pool.query('DELETE FROM multi_window WHERE key = $1', [key]);
+  }
+
+  // Reset all keys and clear the table
+  async resetAll(): Promise<void> {
+    await this.pool.query('TRUNCATE TABLE multi_window');
+  }
+
+  // Gracefully shut down the store and close the connection pool
+  async shutdown(): Promise<void> {
+    await this.pool.end();
+  }
+
+  // Match the stored rows up with the configured windows, starting a new
+  // window for those that are missing or have come to an end
+  private getCounters(
+    rows: Array<{ window_ms: string; hits: number; reset_time: string }>,
+    now: number
+  ): ClientRateLimitInfo[] {
+    return this.windows.map((window) => {
+      const row = rows.find((row) => Number(row.window_ms) === window.windowMs);
+      if (!row || Number(row.reset_time) <= now) {
+        return { totalHits: 0, resetTime: new Date(now + window.windowMs) };
+      }
+
+      return { totalHits: row.hits, resetTime: new Date(Number(row.reset_time)) };
+    });
+  }
+}
@@ -0,0 +1,91 @@
+const scripts = {
+    /**
+     * Increment script for multi-window rate limiting. The request is only
+     * counted if it fits into every window.
+     *
+     * Parameters:
+     * - KEYS[1]: the rate limit key (a hash with the hits and reset time of each window)
+     * - ARGV[1]: current timestamp in milliseconds
+     * - ARGV[2]: number of hits the request costs
+     * - ARGV[3], ARGV[4], ...: the duration (in milliseconds) and limit of each window
+     */
+    increment: `
+      local now = tonumber(ARGV[1])
+      local amount = tonumber(ARGV[2])
+      local count = (#ARGV - 2) / 2
+
+      local hits = {}
+      local resets = {}
+      local accepted = 1
+
+      for i = 1, count do
+          local windowMs = tonumber(ARGV[1 + i * 2])
+          local limit = tonumber(ARGV[2 + i * 2])
+          local reset = tonumber(redis.call("HGET", KEYS[1], "reset:" .. i))
+
+          -- Start a new window if the previous one has come to an end
+          if not reset or reset <= now then
+              hits[i] = 0
+              resets[i] = now + windowMs
+          else
+              hits[i] = tonumber(redis.call("HGET", KEYS[1], "hits:" .. i)) or 0
+              resets[i] = reset
+          end
+
+          if hits[i] + amount > limit then
+              accepted = 0
+          end
+      end
+
+      if accepted == 1 then
+          local expiry = 0
+          for i = 1, count do
+              hits[i] = hits[i] + amount
+              redis.call("HSET", KEYS[1], "hits:" .. i, hits[i], "reset:" .. i, resets[i])
+              expiry = math.max(expiry, resets[i] - now)
+          end
+
+          -- Keep the hash alive until the longest window comes to an end
+          redis.call("PEXPIRE", KEYS[1], expiry)
+      end
+
+      local result = {accepted}
+      for i = 1, count do
+          table.insert(result, hits[i])
+          table.insert(result, resets[i])
+      end
+
+      return result
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim(),
+
+    /**
+     * Decrement script, takes hits back from every window that is still running.
+     *
+     * Parameters:
+     * - KEYS[1]: the rate limit key
+     * - ARGV[1]: current timestamp in milliseconds
+     * - ARGV[2]: number of hits to take back
+     * - ARGV[3]: number of windows
+     */
+    decrement: `
+      local now = tonumber(ARGV[1])
+      local amount = tonumber(ARGV[2])
+
+      for i = 1, tonumber(ARGV[3]) do
+          local reset = tonumber(redis.call("HGET", KEYS[1], "reset:" .. i))
+          if reset and reset > now then
+              local hits = tonumber(redis.call("HGET", KEYS[1], "hits:" .. i)) or 0
+              redis.call("HSET", KEYS[1], "hits:" .. i, math.max(hits - amount, 0))
+          end
+      end
+
+      return 1
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim()
+  }
+
+  // Export scripts for use in Redis store implementation
+  export default scripts
@@ -22,9 +22,11 @@ import  MemoryFixedWindowStore  from './fixed-window/memory-fw';
 type Configuration = {
     windowMs: number;
     limit: number | ValueDeterminingMiddleware<number>;
+    cost: number | ValueDeterminingMiddleware<number>;
     message: any | ValueDeterminingMiddleware<any>;
     statusCode: number;
     standardHeaders: false | DraftHeadersVersion;
+    identifier: string | ValueDeterminingMiddleware<string>;
     requestPropertyName: string;
     skipFailedRequests: boolean;
     skipSuccessfulRequests: boolean;
@@ -81,6 +83,24 @@ const omitUndefinedOptions = (
     return omittedOptions;
 };
 
+/**
+ * Makes sure the cost of a request is a positive, finite number of hits. A cost
+ * of zero is refused by some stores, and a negative one would give hits back.
+ *
+ * @param cost {unknown} - The cost passed in the options, or returned by the `cost` function.
+ *
+ * @returns {number} - The same cost, if it is valid.
+ */
+const checkCost = (cost: unknown): number => {
+    if (typeof cost !== 'number' || !Number.isFinite(cost) || cost <= 0) {
+        throw new TypeError(
+            `The cost of a request must be a positive, finite number, but ${String(cost)} was passed.`,
+        );
+    }
+
+    return cost;
+};
+
 /**
  * Type-checks and adds the defaults for options the user has not specified.
  *
@@ -130,8 +150,18 @@ const parseOptions = (
     const config: Configuration = {
         windowMs: notUndefinedOptions.windowMs ?? 60 * 1000,
         limit: notUndefinedOptions.limit ?? 5, // `max` is deprecated, but support it anyways.
+        cost: 1,
         message: 'Too many requests, please try again later.',
         statusCode: 429,
+        async identifier(request: Request, response: Response): Promise<string> {
+            // Name the quota policy after the limit and window, e.g. `5-in-60sec`.
+            const limit =
+                typeof config.limit === 'function'
+                    ? await config.limit(request, response)
+                    : config.limit;
+
+            return `${limit}-in-${Math.ceil(config.windowMs / 1000)}sec`;
+        },
         requestPropertyName: 'rateLimit',
         skipFailedRequests: false,
         skipSuccessfulRequests: false,
@@ -183,6 +213,9 @@ const parseOptions = (
         validations,
     };
 
+    // A cost function is checked every time it is called instead
+    if (typeof config.cost !== 'function') checkCost(config.cost);
+
     // Ensure that the store passed implements the `Store` interface
     if (
         typeof config.store.increment !== 'function' ||
@@ -211,4 +244,4 @@ const handleAsyncErrors =
         }
     };
 
-export { parseOptions, handleAsyncErrors, getOptionsFromConfig };
+export { parseOptions, handleAsyncErrors, getOptionsFromConfig, checkCost };
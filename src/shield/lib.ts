@@ -3,7 +3,22 @@ import  ShieldMemoryStore  from './memory/inMemoryStore';
 import { Request, Response, NextFunction } from 'express';
 import { handleAsyncErrors } from '../parseConfig';
 import { StoreInterface } from './memory/memoryInterface';
-import { detectLfiPatterns, detectSQLInjectionPatterns, detectXSSPatterns } from './detection-patterns';
+import { CRITICAL, detectionRules } from './detection-patterns';
+import { AttackType, ScanTargets, getTargetInputs, withoutAttack } from './scan-targets';
+import { isCrossSiteRequest } from './csrf';
+import { Decoder } from './normalize';
+import {
+    LimitAction,
+    ScanLimits,
+    collectFields,
+    createScanContext,
+    defaultScanLimits,
+    isOutOfTime,
+    limitRuleIds,
+} from './scan-limits';
+import { CidrRange, IpListName, isInRanges, parseCidr } from './ip-lists';
+import { findInternalHosts, ssrfHostRules } from './ssrf';
+import { stripPrototypePollution, strippedTargets } from './prototype-pollution';
 
 type SuspicionScore = {
     score: number;
@@ -15,88 +30,396 @@ interface ShieldOptions {
     blockDurationMs?: number;
     detectionPatterns?: Array<RegExp>;
     message?: string;
+    // Off by default, as API clients on other origins are legitimate. Turn it on for apps
+    // that browsers send cookies to.
     csrf?: boolean;
     xss?: boolean;
     sqlInjection?: boolean;
     lfi?: boolean;
     rfi?: boolean;
     shellInjection?: boolean;
+    nosqlInjection?: boolean;
+    ssrf?: boolean;
+    // Hosts URLs may point at even though they are internal: names, `*.` wildcards or CIDR ranges
+    ssrfAllowedHosts?: string[];
+    prototypePollution?: boolean;
+    // Delete `__proto__` and `constructor.prototype` keys from the request instead of blocking it
+    stripPrototypePollution?: boolean;
+    headerInjection?: boolean;
+    ssti?: boolean;
+    // Looks at text and XML bodies, read with `express.text()` or `express.raw()`
+    xxe?: boolean;
+    // Parts of the request to scan, and the attacks to look for in each of them
+    scanTargets?: ScanTargets;
+    // Names of the headers scanned when the `headers` target is enabled
+    scanHeaders?: string[];
+    // Origins other than the app itself allowed to send state-changing requests
+    trustedOrigins?: string[];
+    // Decoders applied to every value before matching, all of them but `base64` by default
+    decoders?: Decoder[];
+    // How much of each request is scanned at most
+    scanLimits?: ScanLimits;
+    // What to do with requests over the limits, `truncate` by default
+    limitAction?: LimitAction;
+    // Only rules at or below this level are used, from 1 (the default) to 4
+    paranoiaLevel?: number;
+    // How suspicious requests add up to a blocked client, `count` by default
+    scoring?: ShieldScoring;
+    // Requests scoring less than this only have what matched reported. Those that reach
+    // it count against the client, and are blocked outright with `anomaly` scoring.
+    anomalyThreshold?: number;
+    // Ids of the rules to leave out, e.g. `['xss-180']`
+    disabledRules?: string[];
+    // `report` runs every check but never blocks, so rules can be tuned on live traffic
+    mode?: ShieldMode;
+    // Where to put what Shield found on the request, `shield` by default
+    requestPropertyName?: string;
+    // Detectors of your own, run alongside the built-in ones
+    customProtection?: ShieldDetector | ShieldDetector[];
+    // Called with every suspicious request, blocked or not
+    onDetection?: (event: ShieldEvent) => void | Promise<void>;
+    // Called with every request that is blocked, or would have been in `report` mode
+    onBlock?: (event: ShieldEvent) => void | Promise<void>;
+    // Used instead of `console.log` to log detected attacks
+    logFunction?: (message: string) => void;
+    // CIDR ranges always let through without being scanned, e.g. `['10.0.0.0/8']`
+    allowList?: string[];
+    // CIDR ranges always blocked, whatever their suspicion score
+    denyList?: string[];
+    // Keep the lists in the store so every server shares them, if the store supports it
+    persistIpLists?: boolean;
+    // How often the lists are reloaded from the store, in milliseconds
+    ipListRefreshMs?: number;
     store?: StoreInterface;
 }
 
+// How each attack is reported in `attackTypes`
+const attackLabels: Record<AttackType, string> = {
+    xss: "XSS",
+    sqlInjection: "SQL Injection",
+    lfi: "LFI",
+    rfi: "RFI",
+    shellInjection: "Shell Injection",
+    nosqlInjection: "NoSQL Injection",
+    ssrf: "SSRF",
+    prototypePollution: "Prototype Pollution",
+    headerInjection: "Header Injection",
+    ssti: "SSTI",
+    xxe: "XXE",
+};
+
+export type ShieldMode = 'block' | 'report';
+
+// `count` adds 1 to the client's score for every suspicious request, as Shield
+// always has. `anomaly` adds the anomaly score of the request instead, and
+// blocks requests that score `anomalyThreshold` on their own.
+export type ShieldScoring = 'count' | 'anomaly';
+
+export type ShieldBlockReason =
+    | 'noClientIP'
+    | 'denyList'
+    | 'clientBlocked'
+    | 'anomalyThreshold'
+    | 'suspicionThreshold';
+
+export type MatchedRule = {
+    id: string;
+    attackType: string;
+    weight: number;
+    // Where the rule matched, e.g. `query.q`, `body.user.name` or `headers.user-agent`
+    field?: string;
+};
+
+// What a custom detector reports for each attack it finds
+export type ShieldFinding = {
+    attackType: string;
+    // Reported in `matchedRules`, and can be listed in `disabledRules`. `custom` by default.
+    ruleId?: string;
+    // `CRITICAL` by default, so the request is blocked
+    weight?: number;
+    field?: string;
+};
+
+export type ShieldDetector = (
+    req: Request
+) => ShieldFinding | ShieldFinding[] | undefined | Promise<ShieldFinding | ShieldFinding[] | undefined>;
+
+export type DetectionResult = {
+    isSuspicious: boolean;
+    attackTypes: string[];
+    // The sum of the weights of every rule that matched
+    anomalyScore: number;
+    matchedRules: MatchedRule[];
+};
+
+// Set on the request as `req.shield`, whether or not it was blocked
+export type ShieldRequestInfo = {
+    mode: ShieldMode;
+    // Whether the request was blocked, or would have been in `report` mode
+    blocked: boolean;
+    reason?: ShieldBlockReason;
+    attackTypes: string[];
+    anomalyScore: number;
+    matchedRules: MatchedRule[];
+    // The client's suspicion score so far, if this request added to it
+    clientScore?: number;
+    // Where `__proto__` and `constructor.prototype` keys were deleted from, with `stripPrototypePollution`
+    strippedKeys?: string[];
+};
+
+// The request, with what Shield found set on it under `requestPropertyName`
+export type ShieldAugmentedRequest = Request & {
+    [key: string]: ShieldRequestInfo;
+};
+
+// Passed to `onDetection` and `onBlock`
+export type ShieldEvent = ShieldRequestInfo & {
+    // The client the request came from, its IP address
+    key: string;
+    request: Request;
+};
+
 export function isAttackDetected(
     input: object,
-    patterns: RegExp[]
+    patterns: RegExp[],
+    decoders?: Decoder[]
 ): boolean {
-    console.log("isAttackDetected")
-    console.log(input)
-    function scanValues(values: any[]): boolean {
-        return values.some(value => {
-            if (typeof value === 'string') {
-                return patterns.some(pattern => pattern.test(value));
-            } else if (typeof value === 'object' && value !== null) {
-                // Recursively check nested objects or arrays
-                return isAttackDetected(value, patterns);
-            } else {
-                return false;
-            }
-        });
-    }
+    // Match against the decoded forms too, so encoding doesn't hide an attack
+    const fields = collectFields(input, '', createScanContext({}, 'truncate', decoders));
 
-    return scanValues(Object.values(input));
+    return fields.some(({ variants, scope }) =>
+        scope === 'value' &&
+        variants.some(variant => patterns.some(pattern => pattern.test(variant)))
+    );
 }
 
 
 export function detectMaliciousRequest(
     req: any,
     options: ShieldOptions
-): { isSuspicious: boolean; attackTypes: string[] } {
+): DetectionResult {
     const attackTypes: string[] = [];
+    const matchedRules: MatchedRule[] = [];
+    const paranoiaLevel = options.paranoiaLevel ?? 1;
+    const disabledRules = options.disabledRules ?? [];
+
+    const context = createScanContext(options.scanLimits, options.limitAction, options.decoders);
+
+    const targets = getTargetInputs(req, options.scanTargets, options.scanHeaders).map(
+        (target) => ({ ...target, fields: collectFields(target.input, target.target, context) })
+    );
+
+    // Check enabled attack detection options, against each part of the request
+    // that is scanned for that attack. Every rule counts once per request.
+    scan: for (const attack of Object.keys(detectionRules) as AttackType[]) {
+        if (!options[attack]) continue;
+
+        const fields = targets
+            .filter((target) => target.attacks.includes(attack))
+            .flatMap((target) => target.fields);
+
+        for (const rule of detectionRules[attack]) {
+            if (rule.paranoiaLevel > paranoiaLevel || disabledRules.includes(rule.id)) continue;
+            if (isOutOfTime(context)) break scan;
+
+            const scope = rule.scope ?? 'value';
+            const match = fields.find((field) =>
+                scope === 'path'
+                    ? field.scope === 'key' && rule.pattern.test(field.field)
+                    : field.scope === scope && field.variants.some((variant) => rule.pattern.test(variant))
+            );
+            if (match) {
+                matchedRules.push({
+                    id: rule.id,
+                    attackType: attackLabels[attack],
+                    weight: rule.weight,
+                    field: match.field,
+                });
+                if (!attackTypes.includes(attackLabels[attack])) {
+                    attackTypes.push(attackLabels[attack]);
+                }
+            }
+        }
+    }
 
-    // Check enabled attack detection options
-    console.log(req.body)
-    if (options.xss && isAttackDetected({ ...req.query, ...req.body, ...req.params }, detectXSSPatterns)) {
-        attackTypes.push("XSS");
+    // URLs pointing at internal hosts, however the host is written
+    if (options.ssrf && !isOutOfTime(context)) {
+        const fields = targets
+            .filter((target) => target.attacks.includes('ssrf'))
+            .flatMap((target) => target.fields)
+            .filter((field) => field.scope === 'value');
+
+        for (const { field, variants } of fields) {
+            for (const { kind } of variants.flatMap((variant) => findInternalHosts(variant, options.ssrfAllowedHosts))) {
+                const { id, weight } = ssrfHostRules[kind];
+                if (disabledRules.includes(id) || matchedRules.some((rule) => rule.id === id)) continue;
+
+                matchedRules.push({ id, attackType: attackLabels.ssrf, weight, field });
+                if (!attackTypes.includes(attackLabels.ssrf)) {
+                    attackTypes.push(attackLabels.ssrf);
+                }
+            }
+        }
     }
-    if (options.sqlInjection && isAttackDetected({ ...req.query, ...req.body, ...req.params }, detectSQLInjectionPatterns)) {
-        console.log("SQL Injection detected")
-        attackTypes.push("SQL Injection");
+
+    // Requests over the limits are only blocked if asked to, otherwise the limit
+    // hit is just reported
+    for (const { limit, field } of context.exceeded) {
+        const id = limitRuleIds[limit];
+        if (disabledRules.includes(id)) continue;
+
+        matchedRules.push({
+            id,
+            attackType: "Scan Limit Exceeded",
+            weight: context.action === 'block' ? CRITICAL : 0,
+            field,
+        });
     }
-    if (options.lfi && isAttackDetected({ ...req.query, ...req.body, ...req.params }, detectLfiPatterns)) {
-        attackTypes.push("LFI");
+    if (matchedRules.some((rule) => rule.attackType === "Scan Limit Exceeded")) {
+        attackTypes.push("Scan Limit Exceeded");
+    }
+
+    if (
+        options.csrf &&
+        !disabledRules.includes('csrf-100') &&
+        isCrossSiteRequest(req, options.trustedOrigins)
+    ) {
+        matchedRules.push({ id: 'csrf-100', attackType: "CSRF", weight: CRITICAL });
+        attackTypes.push("CSRF");
     }
 
     return {
         isSuspicious: attackTypes.length > 0,
         attackTypes,
+        anomalyScore: matchedRules.reduce((score, rule) => score + rule.weight, 0),
+        matchedRules,
     };
 }
 
+/**
+ * Runs the built-in detectors and then the `customProtection` ones, adding what
+ * they find to the anomaly score. Errors thrown by custom detectors are logged.
+ *
+ * @param req - The incoming request.
+ * @param options - The Shield options.
+ * @returns Everything found in the request.
+ */
+export async function inspectRequest(req: Request, options: ShieldOptions): Promise<DetectionResult> {
+    const { attackTypes, matchedRules } = detectMaliciousRequest(req, options);
+    const disabledRules = options.disabledRules ?? [];
+    const detectors = [options.customProtection ?? []].flat();
+
+    // A detector that throws is logged and left out, rather than failing every request
+    const results = await Promise.all(
+        detectors.map(async (detector, index) => {
+            try {
+                return await detector(req);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                (options.logFunction ?? console.log)(`Error in customProtection[${index}]: ${message}`);
+                return undefined;
+            }
+        })
+    );
+    for (const finding of results.flatMap((result) => result ?? [])) {
+        const id = finding.ruleId ?? 'custom';
+        if (disabledRules.includes(id)) continue;
+
+        matchedRules.push({
+            id,
+            attackType: finding.attackType,
+            weight: finding.weight ?? CRITICAL,
+            field: finding.field,
+        });
+        if (!attackTypes.includes(finding.attackType)) {
+            attackTypes.push(finding.attackType);
+        }
+    }
+
+    return {
+        isSuspicious: attackTypes.length > 0,
+        attackTypes,
+        anomalyScore: matchedRules.reduce((score, rule) => score + rule.weight, 0),
+        matchedRules,
+    };
+}
+
+// Parses the ranges in the options, or passed to the methods that add and
+// remove them
+function parseRanges(cidrs: string[]): CidrRange[] {
+    return cidrs.map((cidr) => {
+        const range = parseCidr(cidr);
+        if (!range) {
+            throw new TypeError(`Invalid CIDR range: ${cidr}`);
+        }
+        return range;
+    });
+}
+
+function isSameRange(a: CidrRange, b: CidrRange): boolean {
+    return a.version === b.version && a.value === b.value && a.prefix === b.prefix;
+}
+
 export default class ZShield {
     private suspicionThreshold: number;
+    private anomalyThreshold: number;
     private blockDurationMs: number;
     private memoryStore: StoreInterface;
     private options: ShieldOptions;
+    private ipLists: Record<IpListName, CidrRange[]>;
+    private ipListsLoadedAt = 0;
+    private ipListsSeeded?: Promise<unknown>;
 
     constructor(options: Partial<ShieldOptions> = {}) {
         console.log("created!!")
+        // Five suspicious requests get a client blocked when counting them, and
+        // about five attacks do when adding up their scores
+        const scoring = options.scoring ?? 'count';
+        const suspicionThreshold = options.suspicionThreshold ?? (scoring === 'anomaly' ? 25 : 5);
+        const blockDurationMs = options.blockDurationMs ?? 60000;
+
         this.options = {
             message: "Access denied due to suspicious activity.",
-            suspicionThreshold: 5,
-            blockDurationMs: 60000,
-            csrf: true,
+            mode: 'block',
+            persistIpLists: false,
+            ipListRefreshMs: 10000,
+            requestPropertyName: 'shield',
+            suspicionThreshold,
+            scoring,
+            anomalyThreshold: 5,
+            paranoiaLevel: 1,
+            blockDurationMs,
+            csrf: false,
             xss: true,
             sqlInjection: true,
             lfi: true,
             rfi: true,
             shellInjection: true,
-            store: new ShieldMemoryStore(),
+            nosqlInjection: true,
+            ssrf: true,
+            prototypePollution: true,
+            stripPrototypePollution: false,
+            headerInjection: true,
+            ssti: true,
+            xxe: true,
             ...options,
         };
 
-        this.memoryStore = this.options.store!;
-        this.suspicionThreshold = this.options.suspicionThreshold ?? 5;
-        this.blockDurationMs = this.options.blockDurationMs ?? 60000;
+        // The store blocks clients on its own once their score is too high, so it
+        // has to use the same threshold as the middleware
+        this.memoryStore = this.options.store ?? new ShieldMemoryStore(suspicionThreshold, blockDurationMs);
+        this.memoryStore.init?.({ suspicionThreshold, blockDurationMs });
+        this.suspicionThreshold = suspicionThreshold;
+        this.anomalyThreshold = this.options.anomalyThreshold ?? 5;
+        this.blockDurationMs = blockDurationMs;
+
+        this.ipLists = {
+            allow: parseRanges(this.options.allowList ?? []),
+            deny: parseRanges(this.options.denyList ?? []),
+        };
+        if (this.options.persistIpLists && !this.memoryStore.getIpList) {
+            throw new Error('The current store does not support persisting IP lists');
+        }
     }
 
     middleware = handleAsyncErrors(
@@ -106,43 +429,303 @@ export default class ZShield {
             console.log(clientIP)
 
             if (!clientIP) {
-                res.status(403).json({ error: this.options.message });
+                await this.respond('', req, res, next, this.getInfo(true, 'noClientIP'));
                 return;
             }
 
-            // Check if the client is already blocked
+            // Allowed and denied ranges take precedence over the suspicion score,
+            // with allowed ones winning where they overlap
+            const ipLists = await this.getIpLists();
+            if (isInRanges(clientIP, ipLists.allow)) {
+                await this.respond(clientIP, req, res, next, this.getInfo(false));
+                return;
+            }
+            if (isInRanges(clientIP, ipLists.deny)) {
+                await this.respond(clientIP, req, res, next, this.getInfo(true, 'denyList'));
+                return;
+            }
+
+            // Check if the client is already blocked. In `report` mode the request
+            // is still scanned, to see what else it would have been blocked for.
             const isBlocked = await this.memoryStore.isBlocked(clientIP);
-            if (isBlocked) {
-                res.status(403).json({ error: this.options.message });
+            if (isBlocked && this.options.mode !== 'report') {
+                await this.respond(clientIP, req, res, next, this.getInfo(true, 'clientBlocked'));
                 return;
             }
 
-            // Detect attack patterns
-            const { isSuspicious, attackTypes } = detectMaliciousRequest(req, this.options);
+            // Clean polluting keys out of the request, rather than scoring them. The
+            // raw query string, headers and cookies are not cleaned, so are still scanned.
+            let scanOptions = this.options;
+            let strippedKeys: string[] | undefined;
+            if (this.options.prototypePollution && this.options.stripPrototypePollution) {
+                const maxDepth = this.options.scanLimits?.maxDepth ?? defaultScanLimits.maxDepth;
+                strippedKeys = stripPrototypePollution(req, maxDepth);
+                scanOptions = {
+                    ...this.options,
+                    scanTargets: withoutAttack(this.options.scanTargets, strippedTargets, 'prototypePollution'),
+                };
+
+                if (strippedKeys.length > 0) {
+                    this.log(`Stripped ${strippedKeys.join(", ")} from the request of ${clientIP}`);
+                }
+            }
+
+            // Detect attack patterns, with the custom detectors too
+            const { isSuspicious, attackTypes, anomalyScore, matchedRules } = await inspectRequest(req, scanOptions);
             if (!isSuspicious) {
                 console.log("not suspicious")
-                next();
+                await this.respond(clientIP, req, res, next, {
+                    ...this.getInfo(isBlocked, isBlocked ? 'clientBlocked' : undefined),
+                    attackTypes,
+                    anomalyScore,
+                    matchedRules,
+                    strippedKeys,
+                });
                 return;
             }
 
             // Log detected attack types
-            console.log(`Suspicious activity detected from ${clientIP}: ${attackTypes.join(", ")}`);
+            this.log(
+                `Suspicious activity detected from ${clientIP}: ${attackTypes.join(", ")} ` +
+                `(score ${anomalyScore}, rules ${matchedRules.map((rule) => rule.id).join(", ")})`
+            );
 
-            // Increment suspicion score
-            const currentScore = await this.memoryStore.increment(clientIP, this.blockDurationMs);
+            // Add this request to the client's suspicion score. Matches that add up
+            // to less than `anomalyThreshold`, like a stray `<b>` or `1=1`, are only
+            // reported, so that ordinary clients are not blocked over time.
+            const scoring = this.options.scoring;
+            const clientScore = anomalyScore >= this.anomalyThreshold
+                ? await this.memoryStore.increment(
+                    clientIP,
+                    this.blockDurationMs,
+                    scoring === 'anomaly' ? anomalyScore : 1
+                )
+                : undefined;
 
-            if (currentScore >= this.suspicionThreshold) {                
-                res.status(403).json({
-                    error: this.options.message,
-                    detectedAttacks: attackTypes,
-                });
-                return;
-            }
+            // Block the request if it is bad enough on its own, or the client has
+            // sent too many suspicious ones
+            const reason: ShieldBlockReason | undefined = isBlocked
+                ? 'clientBlocked'
+                : clientScore === undefined
+                    ? undefined
+                    : scoring === 'anomaly'
+                        ? 'anomalyThreshold'
+                        : clientScore >= this.suspicionThreshold
+                            ? 'suspicionThreshold'
+                            : undefined;
 
-            next();
+            const info: ShieldRequestInfo = {
+                ...this.getInfo(reason !== undefined, reason),
+                attackTypes,
+                anomalyScore,
+                matchedRules,
+                clientScore,
+                strippedKeys,
+            };
+            this.emit('onDetection', { ...info, key: clientIP, request: req });
+            await this.respond(clientIP, req, res, next, info);
         }
     );
 
+    // What is set on requests that were not scanned, or found nothing
+    private getInfo(blocked: boolean, reason?: ShieldBlockReason): ShieldRequestInfo {
+        return {
+            mode: this.options.mode ?? 'block',
+            blocked,
+            reason,
+            attackTypes: [],
+            anomalyScore: 0,
+            matchedRules: [],
+        };
+    }
+
+    // Reloads the IP lists from the store when they are due, after saving the
+    // ones from the options to it the first time
+    private async getIpLists(): Promise<Record<IpListName, CidrRange[]>> {
+        const store = this.memoryStore;
+        if (!this.options.persistIpLists || Date.now() - this.ipListsLoadedAt < this.options.ipListRefreshMs!) {
+            return this.ipLists;
+        }
+        this.ipListsLoadedAt = Date.now();
+
+        // If the store fails, both the seeding and the loading are tried again
+        // with the next request, rather than failing or going stale until the
+        // next refresh
+        this.ipListsSeeded ??= Promise.all([
+            ...(this.options.allowList ?? []).map((cidr) => store.addToIpList!('allow', cidr)),
+            ...(this.options.denyList ?? []).map((cidr) => store.addToIpList!('deny', cidr)),
+        ]).catch((error) => {
+            this.ipListsSeeded = undefined;
+            throw error;
+        });
+
+        try {
+            await this.ipListsSeeded;
+            const [allow, deny] = await Promise.all([store.getIpList!('allow'), store.getIpList!('deny')]);
+
+            // Leave out anything in the store that is not a valid range
+            this.ipLists = {
+                allow: allow.map((cidr) => parseCidr(cidr)).filter((range): range is CidrRange => !!range),
+                deny: deny.map((cidr) => parseCidr(cidr)).filter((range): range is CidrRange => !!range),
+            };
+        } catch (error) {
+            this.ipListsLoadedAt = 0;
+            throw error;
+        }
+        return this.ipLists;
+    }
+
+    private async addToIpList(list: IpListName, cidr: string): Promise<void> {
+        const [range] = parseRanges([cidr]);
+        if (!this.ipLists[list].some((existing) => isSameRange(existing, range))) {
+            this.ipLists[list].push(range);
+        }
+
+        if (this.options.persistIpLists) {
+            await this.memoryStore.addToIpList!(list, range.cidr);
+        }
+    }
+
+    private async removeFromIpList(list: IpListName, cidr: string): Promise<void> {
+        const [range] = parseRanges([cidr]);
+        const removed = this.ipLists[list].filter((existing) => isSameRange(existing, range));
+        this.ipLists[list] = this.ipLists[list].filter((existing) => !isSameRange(existing, range));
+
+        if (this.options.persistIpLists) {
+            // However the range was written when it was added
+            await Promise.all(
+                [range, ...removed].map((existing) => this.memoryStore.removeFromIpList!(list, existing.cidr))
+            );
+        }
+    }
+
+    /**
+     * Always lets requests from a range through, without scanning them.
+     *
+     * @param cidr - The range, e.g. `10.0.0.0/8`, or a single address.
+     */
+    async addToAllowList(cidr: string): Promise<void> {
+        await this.addToIpList('allow', cidr);
+    }
+
+    /**
+     * Removes a range added to the allow list.
+     *
+     * @param cidr - The range.
+     */
+    async removeFromAllowList(cidr: string): Promise<void> {
+        await this.removeFromIpList('allow', cidr);
+    }
+
+    /**
+     * Always blocks requests from a range.
+     *
+     * @param cidr - The range, e.g. `203.0.113.0/24`, or a single address.
+     */
+    async addToDenyList(cidr: string): Promise<void> {
+        await this.addToIpList('deny', cidr);
+    }
+
+    /**
+     * Removes a range added to the deny list.
+     *
+     * @param cidr - The range.
+     */
+    async removeFromDenyList(cidr: string): Promise<void> {
+        await this.removeFromIpList('deny', cidr);
+    }
+
+    private log(message: string): void {
+        (this.options.logFunction ?? console.log)(message);
+    }
+
+    // Calls an event hook without waiting for it, so that a slow hook does not
+    // hold the request up, and one that throws is logged instead of failing it
+    private emit(hook: 'onDetection' | 'onBlock', event: ShieldEvent): void {
+        const handler = this.options[hook];
+        if (!handler) return;
+
+        void Promise.resolve()
+            .then(() => handler(event))
+            .catch((error) => this.log(`Error in ${hook}: ${error instanceof Error ? error.message : String(error)}`));
+    }
+
+    // Sets what was found on the request, then blocks it, unless Shield is only
+    // reporting what it would have done
+    private async respond(
+        key: string,
+        req: Request,
+        res: Response,
+        next: NextFunction,
+        info: ShieldRequestInfo
+    ): Promise<void> {
+        (req as ShieldAugmentedRequest)[this.options.requestPropertyName ?? 'shield'] = info;
+
+        if (!info.blocked) {
+            next();
+            return;
+        }
+
+        this.emit('onBlock', { ...info, key, request: req });
+
+        if (info.mode === 'report') {
+            this.log(`Report mode: would have blocked ${key} (${info.reason})`);
+            next();
+            return;
+        }
+
+        res.status(403).json(
+            info.attackTypes.length > 0
+                ? { error: this.options.message, detectedAttacks: info.attackTypes }
+                : { error: this.options.message }
+        );
+    }
+
+    /**
+     * Blocks a client straight away, whatever its suspicion score.
+     *
+     * @param key - The client's IP address.
+     * @param durationMs - How long to block it for, `blockDurationMs` by default.
+     */
+    async block(key: string, durationMs: number = this.blockDurationMs): Promise<void> {
+        if (!this.memoryStore.block) throw this.unsupported('block');
+        await this.memoryStore.block(key, durationMs);
+    }
+
+    /**
+     * Lifts the block on a client, e.g. after a false positive, and resets its
+     * suspicion score.
+     *
+     * @param key - The client's IP address.
+     */
+    async unblock(key: string): Promise<void> {
+        if (!this.memoryStore.unblock) throw this.unsupported('unblock');
+        await this.memoryStore.unblock(key);
+    }
+
+    /**
+     * Lists the clients blocked right now.
+     *
+     * @returns Each client's IP address, suspicion score and when its block expires.
+     */
+    async listBlocked(): Promise<Array<{ key: string; score: number; expiry: number }>> {
+        if (!this.memoryStore.listBlocked) throw this.unsupported('listBlocked');
+        return this.memoryStore.listBlocked();
+    }
+
+    /**
+     * Clears every suspicion score and block. The IP lists are kept.
+     */
+    async clear(): Promise<void> {
+        if (!this.memoryStore.clear) throw this.unsupported('clear');
+        await this.memoryStore.clear();
+    }
+
+    // Custom stores written before blocking by hand was added may not support it
+    private unsupported(method: string): Error {
+        return new Error(`The current store does not support ${method}()`);
+    }
+
     async flushExpiredScores(): Promise<void> {
         await this.memoryStore.flushExpired();
     }
@@ -11,14 +11,17 @@ interface RedisStoreOptions {
   resetExpiryOnChange?: boolean;
     suspicionThreshold?: number;
     blockDurationMs?: number;
+  // Put in front of every key the store uses, `shield:` by default
+  prefix?: string;
 }
 
 export default class RedisShieldStore implements StoreInterface {
   private client: RedisClient;
   private windowMs: number;
   private resetExpiryOnChange: boolean;
-  private suspicionThreshold: number = 5; 
-  private blockDurationMs: number = 60000;
+  private suspicionThreshold: number;
+  private blockDurationMs: number;
+  private prefix: string;
   
 
   constructor(options: RedisStoreOptions) {
@@ -27,16 +30,46 @@ export default class RedisShieldStore implements StoreInterface {
     this.resetExpiryOnChange = options.resetExpiryOnChange ?? false;
     this.suspicionThreshold = options.suspicionThreshold ?? 5;
     this.blockDurationMs = options.blockDurationMs ?? 60000;
+    this.prefix = options.prefix ?? 'shield:';
+  }
+
+  init(options: { suspicionThreshold: number; blockDurationMs: number }): void {
+    this.suspicionThreshold = options.suspicionThreshold;
+    this.blockDurationMs = options.blockDurationMs;
+  }
+
+  private prefixKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  private ipListKey(list: 'allow' | 'deny'): string {
+    return `${this.prefix}ip-list:${list}`;
+  }
+
+  // Finds the keys of every client with SCAN, a batch at a time, rather than
+  // holding Redis up with KEYS
+  private async scanClientKeys(): Promise<string[]> {
+    const keys = new Set<string>();
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 100);
+      cursor = next;
+      for (const key of batch) {
+        if (!key.startsWith(`${this.prefix}ip-list:`)) keys.add(key);
+      }
+    } while (cursor !== '0');
+
+    return [...keys];
   }
 
   async set(key: string, score: number, ttl: number): Promise<void> {
     const expiry = Date.now() + ttl;
-    await this.client.hmset(key, 'score', score, 'expiry', expiry, 'isBlocked', 'false');
-    await this.client.expire(key, ttl / 1000); // Set TTL for key
+    await this.client.hmset(this.prefixKey(key), 'score', score, 'expiry', expiry, 'isBlocked', 'false');
+    await this.client.pexpire(this.prefixKey(key), ttl); // Set TTL for key
   }
 
   async get(key: string): Promise<StoreValue | undefined> {
-    const value = await this.client.hmget(key, 'score', 'expiry', 'isBlocked');
+    const value = await this.client.hmget(this.prefixKey(key), 'score', 'expiry', 'isBlocked');
     const [score, expiry, isBlocked] = value;
     
     if (!score || !expiry || Date.now() > parseInt(expiry, 10)) {
@@ -50,34 +83,91 @@ export default class RedisShieldStore implements StoreInterface {
     };
   }
 
-  async increment(key: string, ttl: number): Promise<number> {
+  async increment(key: string, ttl: number, amount = 1): Promise<number> {
     // Use Lua script to handle the increment and blocking logic
-    const result = await this.client.evalsha(
+    const result = await this.client.eval(
       scripts.increment,
       1,
-      key,
+      this.prefixKey(key),
       this.suspicionThreshold.toString(),
       this.blockDurationMs.toString(),
-      ttl.toString()
+      ttl.toString(),
+      amount.toString()
     );
     return parseInt(result as string, 10);
   }
 
   async delete(key: string): Promise<void> {
-    await this.client.del(key);
+    await this.client.del(this.prefixKey(key));
   }
 
   async flushExpired(): Promise<void> {
-    // Use Lua script to delete expired keys
-    const deletedCount = await this.client.evalsha(
-      scripts.flushExpired,
-      0
-    );
+    const now = Date.now();
+    let deletedCount = 0;
+
+    for (const key of await this.scanClientKeys()) {
+      const expiry = await this.client.hget(key, 'expiry');
+      if (expiry && parseInt(expiry, 10) <= now) {
+        deletedCount += await this.client.del(key);
+      }
+    }
     console.log(`Deleted ${deletedCount} expired keys.`);
   }
 
   async isBlocked(key: string): Promise<boolean> {
-    const value = await this.client.hget(key, 'isBlocked');
-    return value === 'true';
+    const [isBlocked, expiry] = await this.client.hmget(this.prefixKey(key), 'isBlocked', 'expiry');
+    return isBlocked === 'true' && !!expiry && parseInt(expiry, 10) > Date.now();
+  }
+
+  async block(key: string, duration: number): Promise<void> {
+    const expiry = Date.now() + duration;
+    await this.client
+      .multi()
+      .hsetnx(this.prefixKey(key), 'score', 0)
+      .hmset(this.prefixKey(key), 'expiry', expiry, 'isBlocked', 'true')
+      .pexpire(this.prefixKey(key), duration)
+      .exec();
+  }
+
+  async unblock(key: string): Promise<void> {
+    await this.client.del(this.prefixKey(key));
+  }
+
+  async listBlocked(): Promise<Array<{ key: string; score: number; expiry: number }>> {
+    const now = Date.now();
+    const blocked: Array<{ key: string; score: number; expiry: number }> = [];
+
+    for (const key of await this.scanClientKeys()) {
+      const [score, expiry, isBlocked] = await this.client.hmget(key, 'score', 'expiry', 'isBlocked');
+      if (isBlocked === 'true' && expiry && parseInt(expiry, 10) > now) {
+        blocked.push({
+          key: key.slice(this.prefix.length),
+          score: parseInt(score ?? '0', 10),
+          expiry: parseInt(expiry, 10),
+        });
+      }
+    }
+    return blocked;
+  }
+
+  // Only scores and blocks are cleared, not the IP lists
+  async clear(): Promise<void> {
+    const keys = await this.scanClientKeys();
+    for (let index = 0; index < keys.length; index += 100) {
+      await this.client.del(...keys.slice(index, index + 100));
+    }
+  }
+
+  // IP lists are kept in sets, so every server sees the same ones
+  async getIpList(list: 'allow' | 'deny'): Promise<string[]> {
+    return this.client.smembers(this.ipListKey(list));
+  }
+
+  async addToIpList(list: 'allow' | 'deny', cidr: string): Promise<void> {
+    await this.client.sadd(this.ipListKey(list), cidr);
+  }
+
+  async removeFromIpList(list: 'allow' | 'deny', cidr: string): Promise<void> {
+    await this.client.srem(this.ipListKey(list), cidr);
   }
 }
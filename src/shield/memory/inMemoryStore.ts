@@ -7,6 +7,11 @@ export default class ShieldMemoryStore implements StoreInterface {
 
     constructor(private suspicionThreshold = 5, private blockDurationMs = 60000) {}
 
+    init(options: { suspicionThreshold: number; blockDurationMs: number }): void {
+        this.suspicionThreshold = options.suspicionThreshold;
+        this.blockDurationMs = options.blockDurationMs;
+    }
+
     async set(key: string, score: number, ttl: number): Promise<void> {
         console.log("set!!!")
         const expiry = Date.now() + ttl;
@@ -20,30 +25,30 @@ export default class ShieldMemoryStore implements StoreInterface {
         return value && value.expiry > Date.now() ? value : undefined;
     }
 
-    async increment(key: string, ttl: number): Promise<number> {
-        const value = this.store.get(key);
+    async increment(key: string, ttl: number, amount = 1): Promise<number> {
+        const stored = this.store.get(key);
         const now = Date.now();
 
-        if (!value || value.expiry <= now) {
-            // Key does not exist or expired, reset to 1
-            await this.set(key, 1, ttl);
-            return 1;
-        } else {
-            // Increment score
-            value.score += 1;
-
-            // Block the client if threshold exceeded
-            if (value.score >= this.suspicionThreshold) {
-                value.isBlocked = true;
-                value.expiry = now + this.blockDurationMs;
-            } else {
-                value.expiry = now + ttl;
-                this.addToExpiryQueue(key, value.expiry);
-            }
+        // Key does not exist or expired, start again from 0
+        const value = !stored || stored.expiry <= now
+            ? { score: 0, expiry: now + ttl, isBlocked: false }
+            : stored;
+
+        // Increment score
+        value.score += amount;
 
-            this.store.set(key, value);
-            return value.score;
+        // Block the client if threshold exceeded, without cutting short a longer
+        // block already in place. A block set by hand is kept as it is.
+        if (value.score >= this.suspicionThreshold) {
+            value.isBlocked = true;
+            value.expiry = Math.max(value.expiry, now + this.blockDurationMs);
+        } else if (!value.isBlocked) {
+            value.expiry = now + ttl;
         }
+        this.addToExpiryQueue(key, value.expiry);
+
+        this.store.set(key, value);
+        return value.score;
     }
 
     async delete(key: string): Promise<void> {
@@ -73,6 +78,37 @@ export default class ShieldMemoryStore implements StoreInterface {
         return isBlocked ? isBlocked : false
     }
 
+    async block(key: string, duration: number): Promise<void> {
+        const value = (await this.get(key)) ?? { score: 0, expiry: 0, isBlocked: false };
+        value.isBlocked = true;
+        value.expiry = Date.now() + duration;
+
+        this.store.set(key, value);
+        this.addToExpiryQueue(key, value.expiry);
+    }
+
+    async unblock(key: string): Promise<void> {
+        this.store.delete(key);
+    }
+
+    async listBlocked(): Promise<Array<{ key: string; score: number; expiry: number }>> {
+        const now = Date.now();
+        const blocked: Array<{ key: string; score: number; expiry: number }> = [];
+
+        for (const [key, value] of this.store) {
+            if (value.isBlocked && value.expiry > now) {
+                blocked.push({ key, score: value.score, expiry: value.expiry });
+            }
+        }
+
+        return blocked;
+    }
+
+    async clear(): Promise<void> {
+        this.store.clear();
+        this.expiryQueue = [];
+    }
+
     private addToExpiryQueue(key: string, expiry: number): void {
         this.expiryQueue.push({ key, expiry });
         this.expiryQueue.sort((a, b) => a.expiry - b.expiry); // Min-heap sort
@@ -1,4 +1,11 @@
 export interface StoreInterface {
+    /**
+     * Called by ZShield with its options, so that the store blocks clients at
+     * the same score, and for as long, as the middleware does.
+     * @param options - The suspicion threshold and block duration in milliseconds.
+     */
+    init?(options: { suspicionThreshold: number; blockDurationMs: number }): void;
+
     /**
      * Sets a key in the store with a score and TTL.
      * @param key - The key to store.
@@ -18,8 +25,9 @@ export interface StoreInterface {
      * Increments the score for a given key, setting it if it does not exist.
      * @param key - The key to increment.
      * @param ttl - The time-to-live (TTL) in milliseconds.
+     * @param amount - The anomaly score to add, 1 if not given.
      */
-    increment(key: string, ttl: number): Promise<number>;
+    increment(key: string, ttl: number, amount?: number): Promise<number>;
 
     /**
      * Deletes the given key from the store.
@@ -40,14 +48,49 @@ export interface StoreInterface {
     isBlocked(key: string): Promise<boolean>;
 
     /**
-     * Blocks a key for a specified duration.
+     * Blocks a key for a specified duration, whatever its score. This and the
+     * three methods below are optional, so that stores written before them still
+     * work: ZShield's methods of the same name throw if the store lacks them.
      * @param key - The key to block.
      * @param duration - The block duration in milliseconds.
      */
-    // block(key: string, duration: number): Promise<void>;
+    block?(key: string, duration: number): Promise<void>;
+
+    /**
+     * Lifts the block on a key, and resets its score.
+     * @param key - The key to unblock.
+     */
+    unblock?(key: string): Promise<void>;
+
+    /**
+     * Lists the keys that are blocked right now.
+     * @returns Each blocked key, with its score and when the block expires.
+     */
+    listBlocked?(): Promise<Array<{ key: string; score: number; expiry: number }>>;
+
+    /**
+     * Clears all scores and blocks from the store. IP lists are kept.
+     */
+    clear?(): Promise<void>;
+
+    /**
+     * Returns the CIDR ranges saved to an IP list. Only stores that share the
+     * lists between servers implement this and the two methods below.
+     * @param list - The list, `allow` or `deny`.
+     */
+    getIpList?(list: 'allow' | 'deny'): Promise<string[]>;
+
+    /**
+     * Saves a CIDR range to an IP list.
+     * @param list - The list, `allow` or `deny`.
+     * @param cidr - The range to add, e.g. `10.0.0.0/8`.
+     */
+    addToIpList?(list: 'allow' | 'deny', cidr: string): Promise<void>;
 
     /**
-     * Clears all keys from the store.
+     * Removes a CIDR range from an IP list.
+     * @param list - The list, `allow` or `deny`.
+     * @param cidr - The range to remove.
      */
-    // clear(): Promise<void>;
+    removeFromIpList?(list: 'allow' | 'deny', cidr: string): Promise<void>;
 }
@@ -7,6 +7,7 @@ export default class PostgresShieldStore implements StoreInterface {
 	private pool: Pool;
 	private suspicionThreshold: number;
 	private blockDurationMs: number;
+	private ipListTable?: Promise<unknown>;
 
 	constructor(
 		pool: Pool,
@@ -18,6 +19,11 @@ export default class PostgresShieldStore implements StoreInterface {
 		this.blockDurationMs = blockDurationMs;
 	}
 
+	init(options: { suspicionThreshold: number; blockDurationMs: number }): void {
+		this.suspicionThreshold = options.suspicionThreshold;
+		this.blockDurationMs = options.blockDurationMs;
+	}
+
 	async set(key: string, score: number, ttl: number): Promise<void> {
 		const expiry = Date.now() + ttl;
 		await this.pool.query(
@@ -41,31 +47,32 @@ export default class PostgresShieldStore implements StoreInterface {
 		return undefined;
 	}
 
-	async increment(key: string, ttl: number): Promise<number> {
+	async increment(key: string, ttl: number, amount = 1): Promise<number> {
 		const now = Date.now();
 		const result = await this.pool.query(
 			`SELECT score, expiry, is_blocked AS "isBlocked" FROM rate_limit_store WHERE key = $1`,
 			[key]
 		);
 
-		if (!result.rows[0] || result.rows[0].expiry <= now) {
-			// Key does not exist or has expired
-			await this.set(key, 1, ttl);
-			return 1;
-		}
+		// Key does not exist or has expired, so start again from 0
+		const row = result.rows[0];
+		const active = !!row && Number(row.expiry) > now;
+		const newScore = (active ? Number(row.score) : 0) + amount;
 
-		const { score, expiry } = result.rows[0];
-		const newScore = score + 1;
-		let isBlocked = false;
-		let newExpiry = now + ttl;
+		// A block set by hand is kept, along with when it expires
+		let isBlocked = active && row.isBlocked;
+		let newExpiry = isBlocked ? Number(row.expiry) : now + ttl;
 
 		if (newScore >= this.suspicionThreshold) {
 			isBlocked = true;
-			newExpiry = now + this.blockDurationMs;
+			newExpiry = Math.max(newExpiry, now + this.blockDurationMs);
 		}
 
 		await this.pool.query(
-			`UPDATE rate_limit_store SET score = $1, expiry = $2, is_blocked = $3 WHERE key = $4`,
+			`INSERT INTO rate_limit_store (key, score, expiry, is_blocked)
+			 VALUES ($4, $1, $2, $3)
+			 ON CONFLICT (key)
+			 DO UPDATE SET score = $1, expiry = $2, is_blocked = $3`,
 			[newScore, newExpiry, isBlocked, key]
 		);
 
@@ -93,4 +100,77 @@ export default class PostgresShieldStore implements StoreInterface {
 		const row = result.rows[0];
 		return row && row.isBlocked && row.expiry > Date.now() ? true : false;
 	}
+
+	async block(key: string, duration: number): Promise<void> {
+		const expiry = Date.now() + duration;
+		await this.pool.query(
+			`INSERT INTO rate_limit_store (key, score, expiry, is_blocked)
+			 VALUES ($1, 0, $2, true)
+			 ON CONFLICT (key)
+			 DO UPDATE SET expiry = $2, is_blocked = true`,
+			[key, expiry]
+		);
+	}
+
+	async unblock(key: string): Promise<void> {
+		await this.delete(key);
+	}
+
+	async listBlocked(): Promise<Array<{ key: string; score: number; expiry: number }>> {
+		const result = await this.pool.query(
+			`SELECT key, score, expiry FROM rate_limit_store WHERE is_blocked AND expiry > $1`,
+			[Date.now()]
+		);
+		return result.rows.map((row) => ({
+			key: row.key,
+			score: Number(row.score),
+			expiry: Number(row.expiry),
+		}));
+	}
+
+	// Only scores and blocks are cleared, not the IP lists
+	async clear(): Promise<void> {
+		await this.pool.query(`DELETE FROM rate_limit_store`);
+	}
+
+	// Creates the table IP lists are kept in, the first time it is needed. If
+	// that fails, it is tried again the next time.
+	private ensureIpListTable(): Promise<unknown> {
+		this.ipListTable ??= this.pool.query(
+			`CREATE TABLE IF NOT EXISTS shield_ip_lists (
+				list TEXT NOT NULL,
+				cidr TEXT NOT NULL,
+				PRIMARY KEY (list, cidr)
+			)`
+		).catch((error) => {
+			this.ipListTable = undefined;
+			throw error;
+		});
+		return this.ipListTable;
+	}
+
+	async getIpList(list: 'allow' | 'deny'): Promise<string[]> {
+		await this.ensureIpListTable();
+		const result = await this.pool.query(
+			`SELECT cidr FROM shield_ip_lists WHERE list = $1`,
+			[list]
+		);
+		return result.rows.map((row) => row.cidr);
+	}
+
+	async addToIpList(list: 'allow' | 'deny', cidr: string): Promise<void> {
+		await this.ensureIpListTable();
+		await this.pool.query(
+			`INSERT INTO shield_ip_lists (list, cidr) VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+			[list, cidr]
+		);
+	}
+
+	async removeFromIpList(list: 'allow' | 'deny', cidr: string): Promise<void> {
+		await this.ensureIpListTable();
+		await this.pool.query(
+			`DELETE FROM shield_ip_lists WHERE list = $1 AND cidr = $2`,
+			[list, cidr]
+		);
+	}
 }
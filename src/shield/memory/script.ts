@@ -4,6 +4,7 @@ local key = KEYS[1]
 local suspicionThreshold = tonumber(ARGV[1])
 local blockDurationMs = tonumber(ARGV[2])
 local ttl = tonumber(ARGV[3])
+local amount = tonumber(ARGV[4])
 
 -- Get the current value from Redis
 local value = redis.call('HGET', key, 'score')
@@ -12,39 +13,31 @@ local isBlocked = redis.call('HGET', key, 'isBlocked')
 
 local now = tonumber(redis.call('TIME')[1]) * 1000 -- Current time in milliseconds
 
-if not value or tonumber(expiry) <= now then
-  -- Key does not exist or expired, reset to 1 and set expiry
-  redis.call('HMSET', key, 'score', 1, 'expiry', now + ttl, 'isBlocked', 'false')
-  return 1
-else
-  -- Increment the score
-  value = tonumber(value) + 1
-
-  if value >= suspicionThreshold then
-    -- Block the client
-    redis.call('HMSET', key, 'score', value, 'expiry', now + blockDurationMs, 'isBlocked', 'true')
-  else
-    -- Update expiry and score
-    redis.call('HMSET', key, 'score', value, 'expiry', now + ttl)
-  end
-
-  return value
+if not value or not expiry or tonumber(expiry) <= now then
+  -- Key does not exist or expired, start again from 0
+  value = 0
+  expiry = 0
+  isBlocked = 'false'
 end
-`,
-    flushExpired : `-- Lua script to delete expired keys
-local now = tonumber(redis.call('TIME')[1]) * 1000 -- Current time in milliseconds
-
-local keys = redis.call('KEYS', '*') -- Get all keys (consider optimizing based on patterns)
-local deleted = 0
 
-for _, key in ipairs(keys) do
-  local expiry = redis.call('HGET', key, 'expiry')
-  if tonumber(expiry) <= now then
-    redis.call('DEL', key)
-    deleted = deleted + 1
-  end
+-- Add the anomaly score
+value = tonumber(value) + amount
+expiry = tonumber(expiry)
+
+if value >= suspicionThreshold then
+  -- Block the client, without cutting short a longer block already in place
+  expiry = math.max(expiry, now + blockDurationMs)
+  redis.call('HMSET', key, 'score', value, 'expiry', expiry, 'isBlocked', 'true')
+elseif isBlocked == 'true' then
+  -- Keep a block set by hand, and when it expires
+  redis.call('HSET', key, 'score', value)
+else
+  -- Update expiry and score
+  expiry = now + ttl
+  redis.call('HMSET', key, 'score', value, 'expiry', expiry, 'isBlocked', 'false')
 end
+redis.call('PEXPIRE', key, expiry - now)
 
-return deleted
+return value
 `
-}
\ No newline at end of file
+}
@@ -0,0 +1,120 @@
+export type Decoder =
+    | 'url'
+    | 'doubleUrl'
+    | 'htmlEntity'
+    | 'unicodeEscape'
+    | 'base64'
+    | 'whitespace';
+
+// In the order they are chained: the outermost encoding is usually the URL one.
+// `base64` is left out, as random tokens, ids and JWTs often decode to text that
+// looks like an attack.
+export const defaultDecoders: Decoder[] = [
+    'doubleUrl',
+    'url',
+    'unicodeEscape',
+    'htmlEntity',
+    'whitespace',
+];
+
+const namedEntities: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    amp: '&',
+    sol: '/',
+    bsol: '\\',
+    lpar: '(',
+    rpar: ')',
+    colon: ':',
+    semi: ';',
+    equals: '=',
+    comma: ',',
+    period: '.',
+    grave: '`',
+    tab: '\t',
+    newline: '\n',
+    nbsp: ' ',
+};
+
+// Turns a code point into a string, leaving invalid ones out
+function fromCodePoint(codePoint: number): string {
+    try {
+        return String.fromCodePoint(codePoint);
+    } catch {
+        return '';
+    }
+}
+
+// Decodes `%3C` style escapes once, byte by byte if the input is not valid UTF-8
+function decodeUrl(value: string): string {
+    const plusDecoded = value.replace(/\+/g, ' ');
+    try {
+        return decodeURIComponent(plusDecoded);
+    } catch {
+        return plusDecoded.replace(/%([0-9a-f]{2})/gi, (_match, hex: string) =>
+            String.fromCharCode(parseInt(hex, 16))
+        );
+    }
+}
+
+const decoders: Record<Decoder, (value: string) => string> = {
+    url: decodeUrl,
+
+    // `%253C` is `%3C` once decoded, and `<` the second time round
+    doubleUrl: (value) => decodeUrl(decodeUrl(value)),
+
+    // `&lt;`, `&#60;` and `&#x3c;`, with or without the trailing semicolon
+    htmlEntity: (value) =>
+        value
+            .replace(/&#x([0-9a-f]+);?/gi, (_match, hex: string) => fromCodePoint(parseInt(hex, 16)))
+            .replace(/&#(\d+);?/g, (_match, decimal: string) => fromCodePoint(parseInt(decimal, 10)))
+            .replace(/&([a-z]+);/gi, (match, name: string) => namedEntities[name.toLowerCase()] ?? match),
+
+    // `<`, `\u{3c}`, `\x3c` and the IIS specific `%u003c`
+    unicodeEscape: (value) =>
+        value
+            .replace(/\\u\{([0-9a-f]{1,6})\}/gi, (_match, hex: string) => fromCodePoint(parseInt(hex, 16)))
+            .replace(/(?:\\|%)u([0-9a-f]{4})/gi, (_match, hex: string) => fromCodePoint(parseInt(hex, 16)))
+            .replace(/\\x([0-9a-f]{2})/gi, (_match, hex: string) => fromCodePoint(parseInt(hex, 16))),
+
+    // Only whole values that look like base64 and decode to readable text
+    base64: (value) => {
+        const candidate = value.trim();
+        if (!/^[A-Za-z0-9+/_-]{12,}={0,2}$/.test(candidate)) return value;
+
+        const decoded = Buffer.from(candidate, 'base64').toString('utf8');
+        const printable = decoded.replace(/[^\x20-\x7e\t\r\n]/g, '');
+        return printable.length >= decoded.length * 0.9 ? decoded : value;
+    },
+
+    // Null bytes, inline SQL comments (`UNION/**/SELECT`) and runs of whitespace
+    whitespace: (value) =>
+        value
+            .replace(/\0/g, '')
+            .replace(/\/\*.*?\*\//g, ' ')
+            .replace(/\s+/g, ' '),
+};
+
+/**
+ * Returns the value along with each of its decoded forms: the value run through
+ * each decoder on its own, and through all of them in turn. Patterns are then
+ * matched against every variant, so encoding an attack does not hide it.
+ *
+ * @param value - The raw value from the request.
+ * @param enabled - The decoders to apply.
+ * @returns The distinct variants of the value, starting with the value itself.
+ */
+export function getVariants(value: string, enabled: Decoder[] = defaultDecoders): string[] {
+    const variants = new Set([value]);
+
+    let chained = value;
+    for (const name of enabled) {
+        variants.add(decoders[name](value));
+        chained = decoders[name](chained);
+    }
+    variants.add(chained);
+
+    return [...variants];
+}
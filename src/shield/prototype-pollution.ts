@@ -0,0 +1,51 @@
+// Parts of the request that are merged into other objects, and so are worth cleaning
+export const strippedTargets = ['body', 'query', 'params'] as const;
+
+/**
+ * Checks if a key would reach `Object.prototype` when merged into another
+ * object: `__proto__`, or a `constructor` with a `prototype` in it.
+ */
+export function isPollutingKey(key: string, value: unknown): boolean {
+    if (key === '__proto__') return true;
+
+    return (
+        key === 'constructor' &&
+        typeof value === 'object' &&
+        value !== null &&
+        Object.prototype.hasOwnProperty.call(value, 'prototype')
+    );
+}
+
+// Deletes the polluting keys in an object and the objects nested in it
+function stripObject(input: unknown, field: string, maxDepth: number, stripped: string[], depth = 0): void {
+    if (typeof input !== 'object' || input === null || depth >= maxDepth) return;
+
+    for (const key of Object.keys(input)) {
+        const value = (input as Record<string, unknown>)[key];
+
+        if (isPollutingKey(key, value)) {
+            delete (input as Record<string, unknown>)[key];
+            stripped.push(`${field}.${key}`);
+        } else {
+            stripObject(value, `${field}.${key}`, maxDepth, stripped, depth + 1);
+        }
+    }
+}
+
+/**
+ * Deletes `__proto__` and `constructor.prototype` keys from the body, query and
+ * params of a request, so they can be let through without polluting anything.
+ *
+ * @param req - The incoming request, changed in place.
+ * @param maxDepth - How deeply nested objects are followed.
+ * @returns Where each key was deleted from, e.g. `body.user.__proto__`.
+ */
+export function stripPrototypePollution(req: any, maxDepth: number): string[] {
+    const stripped: string[] = [];
+
+    for (const target of strippedTargets) {
+        stripObject(req[target], target, maxDepth, stripped);
+    }
+
+    return stripped;
+}
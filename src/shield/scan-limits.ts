@@ -0,0 +1,164 @@
+import { Decoder, getVariants } from './normalize';
+
+// Bounds on how much of a request is scanned, so scanning cannot itself be used
+// to tie the server up
+export type ScanLimits = {
+    // How deeply nested objects and arrays are followed
+    maxDepth?: number;
+    // How many keys and array items are looked at, across the whole request
+    maxKeys?: number;
+    // How long a string can be before it is left out or cut short
+    maxStringLength?: number;
+    // How long matching can take, in milliseconds
+    maxScanTimeMs?: number;
+};
+
+export type ScanLimit = keyof ScanLimits;
+
+// What to do with requests over the limits: `block` them, `skip` the parts over
+// the limits, or scan as much as fits, with long strings cut short (`truncate`)
+export type LimitAction = 'block' | 'skip' | 'truncate';
+
+export const defaultScanLimits: Required<ScanLimits> = {
+    maxDepth: 10,
+    maxKeys: 1000,
+    maxStringLength: 8192,
+    maxScanTimeMs: 50,
+};
+
+// The rule id each limit is reported under
+export const limitRuleIds: Record<ScanLimit, string> = {
+    maxDepth: 'limit-100',
+    maxKeys: 'limit-110',
+    maxStringLength: 'limit-120',
+    maxScanTimeMs: 'limit-130',
+};
+
+export type LimitHit = {
+    limit: ScanLimit;
+    // Where the limit was hit, if it was hit in a particular part of the request
+    field?: string;
+};
+
+// A string from the request, along with its decoded forms
+export type ScannedField = {
+    field: string;
+    variants: string[];
+    // Whether the string is a value, or the key of an object
+    scope: 'key' | 'value';
+};
+
+// Shared by every part of a request while it is scanned
+export type ScanContext = {
+    limits: Required<ScanLimits>;
+    action: LimitAction;
+    decoders?: Decoder[];
+    deadline: number;
+    keys: number;
+    exceeded: LimitHit[];
+};
+
+export function createScanContext(
+    limits: ScanLimits = {},
+    action: LimitAction = 'truncate',
+    decoders?: Decoder[]
+): ScanContext {
+    const resolved = { ...defaultScanLimits, ...limits };
+
+    return {
+        limits: resolved,
+        action,
+        decoders,
+        deadline: Date.now() + resolved.maxScanTimeMs,
+        keys: 0,
+        exceeded: [],
+    };
+}
+
+/**
+ * Records that a limit was hit. Each limit is only reported once per request.
+ */
+export function exceedLimit(context: ScanContext, limit: ScanLimit, field?: string): void {
+    if (!context.exceeded.some((hit) => hit.limit === limit)) {
+        context.exceeded.push({ limit, field });
+    }
+}
+
+/**
+ * Checks if the time allowed for scanning the request has run out.
+ */
+export function isOutOfTime(context: ScanContext): boolean {
+    if (Date.now() <= context.deadline) return false;
+
+    exceedLimit(context, 'maxScanTimeMs');
+    return true;
+}
+
+// Adds a string to the fields, cut short or left out if it is too long
+function addString(
+    value: string,
+    field: string,
+    scope: 'key' | 'value',
+    context: ScanContext,
+    fields: ScannedField[]
+): void {
+    const { maxStringLength } = context.limits;
+    if (value.length > maxStringLength) {
+        exceedLimit(context, 'maxStringLength', field);
+        if (context.action !== 'truncate') return;
+
+        value = value.slice(0, maxStringLength);
+    }
+
+    fields.push({ field, variants: getVariants(value, context.decoders), scope });
+}
+
+/**
+ * Collects every string in a part of the request along with its decoded forms,
+ * named after where it was found, e.g. `body.user.name`. Object keys are
+ * collected too, as operators like `$ne` are sent as keys. Stops at the limits
+ * in the context.
+ *
+ * @param input - The part of the request to collect from.
+ * @param field - The name of that part.
+ * @param context - The limits, and how much of the request has been seen so far.
+ * @param depth - How deeply nested the input is.
+ * @returns The strings found.
+ */
+export function collectFields(
+    input: unknown,
+    field: string,
+    context: ScanContext,
+    depth = 0,
+    fields: ScannedField[] = []
+): ScannedField[] {
+    const { limits } = context;
+
+    if (typeof input === 'string') {
+        addString(input, field, 'value', context, fields);
+    } else if (typeof input === 'object' && input !== null) {
+        if (depth >= limits.maxDepth) {
+            exceedLimit(context, 'maxDepth', field);
+            return fields;
+        }
+
+        // Recursively collect from nested objects or arrays
+        for (const key in input) {
+            if (!Object.prototype.hasOwnProperty.call(input, key)) continue;
+
+            if (context.keys >= limits.maxKeys) {
+                exceedLimit(context, 'maxKeys', field);
+                break;
+            }
+            context.keys++;
+
+            // Array indexes are not worth scanning
+            if (!Array.isArray(input)) {
+                addString(key, `${field}.${key}`, 'key', context, fields);
+            }
+            collectFields((input as Record<string, unknown>)[key], `${field}.${key}`, context, depth + 1, fields);
+        }
+    }
+
+    return fields;
+}
@@ -0,0 +1,146 @@
+import { detectAttackPatterns } from './detection-patterns';
+
+export type AttackType = keyof typeof detectAttackPatterns;
+
+export type ScanTarget =
+    | 'query'
+    | 'body'
+    | 'params'
+    | 'headers'
+    | 'cookies'
+    | 'path'
+    | 'rawQuery';
+
+// Each target is either turned off, scanned for its default attacks, or scanned
+// for the attacks listed
+export type ScanTargets = Partial<Record<ScanTarget, boolean | AttackType[]>>;
+
+const allAttacks = Object.keys(detectAttackPatterns) as AttackType[];
+
+// Line breaks are ordinary in bodies, and bodies are seldom reflected into headers
+const bodyAttacks = allAttacks.filter((attack) => attack !== 'headerInjection');
+
+// Which attacks are looked for in each part of the request by default. See the
+// table at the bottom of `detection-patterns.ts`.
+export const defaultTargetAttacks: Record<ScanTarget, AttackType[]> = {
+    query: allAttacks,
+    body: bodyAttacks,
+    params: allAttacks,
+    // The values are scanned once parsed, as `query`. As sent, the query string
+    // adds its keys and what the parser decodes away.
+    rawQuery: ['xss', 'nosqlInjection', 'prototypePollution', 'headerInjection'],
+    path: ['xss', 'lfi', 'headerInjection'],
+    headers: ['sqlInjection', 'shellInjection'],
+    cookies: ['sqlInjection', 'xss', 'headerInjection'],
+};
+
+// Headers that carry user input and are worth scanning. Others, like `Accept`,
+// are left alone as their values look a lot like attacks (`*/*`).
+export const defaultScanHeaders = ['user-agent', 'referer', 'authorization'];
+
+export type TargetInput = {
+    target: ScanTarget;
+    input: unknown;
+    attacks: AttackType[];
+};
+
+/**
+ * Stops looking for an attack in some of the targets, e.g. once they have been
+ * cleaned of it, and keeps looking for it in the others.
+ */
+export function withoutAttack(
+    scanTargets: ScanTargets = {},
+    targets: readonly ScanTarget[],
+    attack: AttackType
+): ScanTargets {
+    const result = { ...scanTargets };
+    for (const target of targets) {
+        const setting = scanTargets[target] ?? true;
+        if (setting === false) continue;
+
+        const attacks = setting === true ? defaultTargetAttacks[target] : setting;
+        result[target] = attacks.filter((other) => other !== attack);
+    }
+
+    return result;
+}
+
+/**
+ * Parses the `Cookie` header, unless a cookie parser has already done so.
+ */
+export function getCookies(req: any): Record<string, string> {
+    if (req.cookies && typeof req.cookies === 'object') return req.cookies;
+
+    const cookies: Record<string, string> = {};
+    const header: unknown = req.headers?.cookie;
+    if (typeof header !== 'string') return cookies;
+
+    for (const pair of header.split(';')) {
+        const index = pair.indexOf('=');
+        if (index < 0) continue;
+
+        const name = pair.slice(0, index).trim();
+        const value = pair.slice(index + 1).trim();
+        try {
+            cookies[name] = decodeURIComponent(value);
+        } catch {
+            cookies[name] = value;
+        }
+    }
+
+    return cookies;
+}
+
+/**
+ * Returns the parsed body. Bodies read with `express.raw()` are turned into a
+ * string if they are text or XML, and left out otherwise.
+ */
+export function getBody(req: any): unknown {
+    if (!Buffer.isBuffer(req.body)) return req.body;
+
+    const type = String(req.headers?.['content-type'] ?? '');
+    return /xml|^text\//i.test(type) ? req.body.toString('utf8') : undefined;
+}
+
+/**
+ * Returns the query string exactly as it was sent, keys included.
+ */
+export function getRawQuery(req: any): string {
+    const url: string = req.originalUrl ?? req.url ?? '';
+    const index = url.indexOf('?');
+    return index < 0 ? '' : url.slice(index + 1);
+}
+
+/**
+ * Picks out the parts of the request to scan, along with the attacks to look
+ * for in each of them.
+ */
+export function getTargetInputs(
+    req: any,
+    scanTargets: ScanTargets = {},
+    scanHeaders: string[] = defaultScanHeaders
+): TargetInput[] {
+    const readers: Record<ScanTarget, () => unknown> = {
+        query: () => req.query,
+        body: () => getBody(req),
+        params: () => req.params,
+        rawQuery: () => getRawQuery(req),
+        path: () => req.path,
+        headers: () =>
+            Object.fromEntries(
+                scanHeaders.map((name) => [name.toLowerCase(), req.headers?.[name.toLowerCase()]])
+            ),
+        cookies: () => getCookies(req),
+    };
+
+    const inputs: TargetInput[] = [];
+    for (const target of Object.keys(readers) as ScanTarget[]) {
+        const setting = scanTargets[target] ?? true;
+        if (setting === false) continue;
+
+        const attacks = setting === true ? defaultTargetAttacks[target] : setting;
+        inputs.push({ target, input: readers[target](), attacks });
+    }
+
+    return inputs;
+}
@@ -0,0 +1,134 @@
+import { CRITICAL, ERROR } from './detection-patterns';
+import { CidrRange, isInRanges, parseCidr } from './ip-lists';
+
+// The kinds of internal address a URL can point a server at
+export type InternalHostKind = 'metadata' | 'loopback' | 'linkLocal' | 'private';
+
+// The rule each kind of address is reported under, like the rules in
+// `detection-patterns.ts`
+export const ssrfHostRules: Record<InternalHostKind, { id: string; weight: number }> = {
+    metadata: { id: 'ssrf-100', weight: CRITICAL },
+    loopback: { id: 'ssrf-110', weight: ERROR },
+    linkLocal: { id: 'ssrf-120', weight: ERROR },
+    private: { id: 'ssrf-130', weight: ERROR },
+};
+
+const toRanges = (cidrs: string[]): CidrRange[] => cidrs.map((cidr) => parseCidr(cidr)!);
+
+// Checked in order, so cloud metadata services are reported as such rather
+// than as link-local
+const internalRanges: Array<[InternalHostKind, CidrRange[]]> = [
+    ['metadata', toRanges(['169.254.169.254', '169.254.170.2', '100.100.100.200', 'fd00:ec2::254'])],
+    ['loopback', toRanges(['127.0.0.0/8', '0.0.0.0/8', '::1', '::'])],
+    ['linkLocal', toRanges(['169.254.0.0/16', 'fe80::/10'])],
+    ['private', toRanges(['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', '100.64.0.0/10', 'fc00::/7'])],
+];
+
+const internalHostnames: Record<string, InternalHostKind> = {
+    'localhost': 'loopback',
+    'ip6-localhost': 'loopback',
+    'metadata': 'metadata',
+    'metadata.google.internal': 'metadata',
+    'instance-data': 'metadata',
+};
+
+// `scheme://authority`, also with backslashes, which URL parsers treat the same
+const urlPattern = /\b[a-z][a-z0-9+.-]*:[/\\]{2}([^\s/?#\\'"<>]+)/gi;
+
+// Parses one part of an IPv4 address, in decimal, octal (`0177`) or hex (`0x7f`)
+function parseIPv4Part(part: string): number {
+    if (/^0x[0-9a-f]*$/i.test(part)) return parseInt(part.slice(2) || '0', 16);
+    if (/^0[0-7]*$/.test(part)) return parseInt(part, 8);
+    if (/^[1-9]\d*$/.test(part)) return parseInt(part, 10);
+    return NaN;
+}
+
+/**
+ * Parses an IPv4 address the way `inet_aton` and URL parsers do, so that
+ * `2130706433`, `0x7f.1` and `0177.0.0.1` are all read as `127.0.0.1`.
+ *
+ * @param host - The host of a URL.
+ * @returns The address in dotted decimal, or `undefined` if it is not one.
+ */
+export function parseLooseIPv4(host: string): string | undefined {
+    const parts = host.split('.');
+    if (parts.length > 4 || parts.some((part) => part === '')) return undefined;
+
+    const numbers = parts.map(parseIPv4Part);
+    if (numbers.some((number) => Number.isNaN(number))) return undefined;
+
+    // The last part fills the bytes the others leave out, so `127.1` is `127.0.0.1`
+    const last = numbers.pop()!;
+    if (numbers.some((number) => number > 255) || last >= 256 ** (4 - numbers.length)) return undefined;
+
+    const value = numbers.reduce((total, number) => total * 256 + number, 0) * 256 ** (4 - numbers.length) + last;
+    return [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join('.');
+}
+
+// Picks the host out of a URL's authority, leaving out the user and port
+function getHost(authority: string): string {
+    const hostAndPort = authority.slice(authority.lastIndexOf('@') + 1).toLowerCase();
+
+    if (hostAndPort.startsWith('[')) {
+        const end = hostAndPort.indexOf(']');
+        return end < 0 ? hostAndPort.slice(1) : hostAndPort.slice(1, end);
+    }
+
+    return hostAndPort.replace(/:\d*$/, '').replace(/\.$/, '');
+}
+
+/**
+ * Works out whether a host is internal: a loopback, link-local, private or
+ * cloud metadata address, however it is written. Hostnames are not looked up,
+ * only the well-known internal ones are recognised.
+ *
+ * @param host - The host, e.g. `localhost`, `0x7f000001` or `::ffff:127.0.0.1`.
+ * @returns The kind of internal address, or `undefined` if it is not one.
+ */
+export function getInternalHostKind(host: string): InternalHostKind | undefined {
+    if (internalHostnames[host]) return internalHostnames[host];
+    if (host.endsWith('.localhost')) return 'loopback';
+
+    const ip = host.includes(':') ? host : parseLooseIPv4(host);
+    if (!ip) return undefined;
+
+    return internalRanges.find(([, ranges]) => isInRanges(ip, ranges))?.[0];
+}
+
+// Checks a host against the allowed hosts: names, `*.` wildcards or CIDR ranges
+function isAllowedHost(host: string, allowedHosts: string[]): boolean {
+    const ip = host.includes(':') ? host : parseLooseIPv4(host);
+
+    return allowedHosts.some((allowed) => {
+        const pattern = allowed.toLowerCase();
+        if (pattern.startsWith('*.')) return host.endsWith(pattern.slice(1));
+
+        const range = parseCidr(pattern);
+        return range && ip ? isInRanges(ip, [range]) : host === pattern;
+    });
+}
+
+/**
+ * Finds the URLs in a value that point at internal addresses.
+ *
+ * @param value - A value from the request.
+ * @param allowedHosts - Hosts that may be pointed at anyway.
+ * @returns The internal hosts found, with their kind.
+ */
+export function findInternalHosts(
+    value: string,
+    allowedHosts: string[] = []
+): Array<{ host: string; kind: InternalHostKind }> {
+    const found: Array<{ host: string; kind: InternalHostKind }> = [];
+
+    for (const [, authority] of value.matchAll(urlPattern)) {
+        const host = getHost(authority);
+        const kind = getInternalHostKind(host);
+
+        if (kind && !isAllowedHost(host, allowedHosts)) {
+            found.push({ host, kind });
+        }
+    }
+
+    return found;
+}
@@ -0,0 +1,101 @@
+import { randomUUID } from 'node:crypto'
+import scripts from './scripts'
+import type { Store, Options, ClientRateLimitInfo } from '../types'
+import { Redis as RedisClient } from 'ioredis';
+
+interface RedisStoreOptions {
+  client: RedisClient
+  prefix?: string
+  windowMs?: number
+}
+
+export default class SlidingWindowLogRedisStore implements Store {
+  public client: RedisClient
+  public prefix: string
+  public windowMs: number
+
+  localKeys = false
+
+  constructor(options: RedisStoreOptions) {
+    this.client = options.client
+    this.prefix = options.prefix ?? 'rl-swl:'
+    this.windowMs = options.windowMs ?? 60000 // default 1 minute
+  }
+
+  init(options: Options) {
+    this.windowMs = options.windowMs
+  }
+
+  private prefixKey(key: string): string {
+    return `${this.prefix}${key}`
+  }
+
+  private parseResults(results: unknown, now: number): ClientRateLimitInfo {
+    if (!Array.isArray(results))
+      throw new TypeError('Expected result to be array of values')
+
+    if (results.length !== 2)
+      throw new Error(`Expected 2 replies, got ${results.length}`)
+
+    const totalHits = Number(results[0])
+    const oldest = results[1] === null ? now : Number(results[1])
+
+    return {
+      totalHits,
+      resetTime: new Date(oldest + this.windowMs)
+    }
+  }
+
+  async get(key: string) {
+    const now = Date.now()
+    const results = await this.client.eval(
+      scripts.get,
+      1,
+      this.prefixKey(key),
+      this.windowMs.toString(),
+      now.toString()
+    )
+
+    return this.parseResults(results, now)
+  }
+
+  async increment(key: string, amount = 1) {
+    const now = Date.now()
+    const results = await this.client.eval(
+      scripts.increment,
+      1,
+      this.prefixKey(key),
+      this.windowMs.toString(),
+      now.toString(),
+      `${now}-${randomUUID()}`,
+      amount.toString()
+    )
+
+    return this.parseResults(results, now)
+  }
+
+  async decrement(key: string, amount = 1) {
+    await this.client.eval(
+      scripts.decrement,
+      1,
+      this.prefixKey(key),
+      amount.toString()
+    )
+  }
+
+  async resetKey(key: string) {
+    await this.client.del(this.prefixKey(key))
+  }
+
+  async resetAll() {
+    // Find all keys with the prefix and delete them
+    const keys = await this.client.keys(`${this.prefix}*`)
+    if (keys.length > 0) {
+      await this.client.del(...keys)
+    }
+  }
+
+  async shutdown() {
+    // For ioredis, typically no special shutdown is needed
+  }
+}
@@ -0,0 +1,30 @@
+import type { Options, RateLimitRequestHandler } from '../types'
+import fixedWindow from '../fixed-window/lib-fixed-window'
+import MemorySlidingWindowLogStore from './memory-swl'
+
+/**
+ *
+ * Create an instance of sliding window log rate-limiting middleware for Express.
+ *
+ * Unlike the fixed window, every hit is remembered for exactly `windowMs`, so a
+ * client can never send more than `limit` requests in any `windowMs` period,
+ * including across the edge of two fixed windows.
+ *
+ * @param passedOptions {Options} - Options to configure the rate limiter.
+ *
+ * @returns {RateLimitRequestHandler} - The middleware that rate-limits clients based on your configuration.
+ *
+ * @public
+ */
+const slidingWindowLog = (
+	passedOptions?: Partial<Options>
+): RateLimitRequestHandler =>
+	// The log stores count hits just like the fixed window stores do, so the
+	// fixed window middleware handles the rest.
+	fixedWindow({
+		...passedOptions,
+		store: passedOptions?.store ?? new MemorySlidingWindowLogStore(),
+	})
+
+// Export it to the world!
+export default slidingWindowLog
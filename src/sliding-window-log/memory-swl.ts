@@ -0,0 +1,174 @@
+import type { Store, Options, ClientRateLimitInfo } from '../types'
+
+/**
+ * A `Store` that keeps the exact timestamp of every hit for each client in
+ * memory, and counts only the hits that fall within the last `windowMs`.
+ *
+ * @public
+ */
+export default class MemorySlidingWindowLogStore implements Store {
+	/**
+	 * The duration of the sliding window (in milliseconds).
+	 */
+	windowMs!: number
+
+	/**
+	 * The timestamps of the hits made by each client, oldest first.
+	 */
+	hits = new Map<string, number[]>()
+
+	/**
+	 * A reference to the active timer.
+	 */
+	interval?: NodeJS.Timeout
+
+	/**
+	 * Confirmation that the keys incremented in once instance of MemoryStore
+	 * cannot affect other instances.
+	 */
+	localKeys = true
+
+	/**
+	 * Method that initializes the store.
+	 *
+	 * @param options {Options} - The options used to setup the middleware.
+	 */
+	init(options: Options): void {
+		this.windowMs = options.windowMs
+
+		// Indicates that init was called more than once.
+		// Could happen if a store was shared between multiple instances.
+		if (this.interval) clearInterval(this.interval)
+
+		// Drop the clients whose logs have fully expired every `windowMs`.
+		this.interval = setInterval(() => {
+			this.clearExpired()
+		}, this.windowMs)
+
+		// Cleaning up the interval will be taken care of by the `shutdown` method.
+		if (this.interval.unref) this.interval.unref()
+	}
+
+	/**
+	 * Method to fetch a client's hit count and reset time.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 *
+	 * @returns {ClientRateLimitInfo | undefined} - The number of hits and reset time for that client.
+	 *
+	 * @public
+	 */
+	async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+		const log = this.hits.get(key)
+		if (!log) return undefined
+
+		return this.getInfo(this.trimLog(log))
+	}
+
+	/**
+	 * Method to record hits for a client.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 * @param amount {number} - The number of hits to record.
+	 *
+	 * @returns {ClientRateLimitInfo} - The number of hits and reset time for that client.
+	 *
+	 * @public
+	 */
+	async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
+		const now = Date.now()
+		const log = this.trimLog(this.hits.get(key) ?? [], now)
+
+		for (let i = 0; i < amount; i++) log.push(now)
+		this.hits.set(key, log)
+
+		return this.getInfo(log)
+	}
+
+	/**
+	 * Method to remove the most recent hits from a client's log.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 * @param amount {number} - The number of hits to remove.
+	 *
+	 * @public
+	 */
+	async decrement(key: string, amount = 1): Promise<void> {
+		const log = this.hits.get(key)
+		if (log) log.splice(Math.max(log.length - amount, 0))
+	}
+
+	/**
+	 * Method to reset a client's hit log.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 *
+	 * @public
+	 */
+	async resetKey(key: string): Promise<void> {
+		this.hits.delete(key)
+	}
+
+	/**
+	 * Method to reset everyone's hit log.
+	 *
+	 * @public
+	 */
+	async resetAll(): Promise<void> {
+		this.hits.clear()
+	}
+
+	/**
+	 * Method to stop the timer (if currently running) and prevent any memory
+	 * leaks.
+	 *
+	 * @public
+	 */
+	shutdown(): void {
+		clearInterval(this.interval)
+		void this.resetAll()
+	}
+
+	/**
+	 * Removes the hits that have slid out of the window from the start of a log.
+	 *
+	 * @param log {number[]} - The hit timestamps of a client, oldest first.
+	 * @param now {number} - The current time.
+	 *
+	 * @returns {number[]} - The same log, to allow for chaining.
+	 */
+	private trimLog(log: number[], now = Date.now()): number[] {
+		const windowStart = now - this.windowMs
+		const expired = log.findIndex((timestamp) => timestamp > windowStart)
+		log.splice(0, expired === -1 ? log.length : expired)
+
+		return log
+	}
+
+	/**
+	 * Builds the rate limit info for a trimmed log. The reset time is the moment
+	 * the oldest hit in the window expires and frees up a slot.
+	 *
+	 * @param log {number[]} - The trimmed hit timestamps of a client.
+	 *
+	 * @returns {ClientRateLimitInfo} - The number of hits and reset time for that client.
+	 */
+	private getInfo(log: number[]): ClientRateLimitInfo {
+		return {
+			totalHits: log.length,
+			resetTime: new Date((log[0] ?? Date.now()) + this.windowMs),
+		}
+	}
+
+	/**
+	 * Removes the clients that have no hits left in the window.
+	 *
+	 * This function is called every `windowMs`.
+	 */
+	private clearExpired(): void {
+		const now = Date.now()
+		for (const [key, log] of this.hits) {
+			if (this.trimLog(log, now).length === 0) this.hits.delete(key)
+		}
+	}
+}
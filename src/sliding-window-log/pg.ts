@@ -0,0 +1,119 @@
+import { Pool } from 'pg'; // PostgreSQL client library
+import type { Store, Options, ClientRateLimitInfo } from '../types';
+
+export default class PostgresSlidingWindowLogStore implements Store {
+  private pool: Pool;
+  private windowMs!: number;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  // Initialize the store by creating the hit log table if it doesn't exist
+  async init(options: Options): Promise<void> {
+    this.windowMs = options.windowMs;
+
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS sliding_window_log (
+        id BIGSERIAL PRIMARY KEY,
+        key TEXT NOT NULL,
+        hit_time BIGINT NOT NULL
+      )
+    `);
+    await this.pool.query(`
+      CREATE INDEX IF NOT EXISTS sliding_window_log_key_time
+        ON sliding_window_log (key, hit_time)
+    `);
+  }
+
+  // Get the number of hits in the current window and when the oldest one expires
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const now = Date.now();
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS total_hits, MIN(hit_time) AS oldest
+       FROM sliding_window_log
+       WHERE key = $1 AND hit_time > $2`,
+      [key, now - this.windowMs]
+    );
+
+    const totalHits = parseInt(result.rows[0].total_hits, 10);
+    if (totalHits === 0) return undefined;
+
+    return {
+      totalHits,
+      resetTime: new Date(parseInt(result.rows[0].oldest, 10) + this.windowMs),
+    };
+  }
+
+  // Record hits for a specific key and count the hits in the window
+  async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
+    const now = Date.now();
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialize concurrent hits for the same key
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [key]);
+
+      // Drop the hits that have slid out of the window
+      await client.query(
+        'DELETE FROM sliding_window_log WHERE key = $1 AND hit_time <= $2',
+        [key, now - this.windowMs]
+      );
+      await client.query(
+        `INSERT INTO sliding_window_log (key, hit_time)
+         SELECT $1, $2 FROM generate_series(1, $3)`,
+        [key, now, amount]
+      );
+
+      const result = await client.query(
+        `SELECT COUNT(*) AS total_hits, MIN(hit_time) AS oldest
+         FROM sliding_window_log
+         WHERE key = $1`,
+        [key]
+      );
+
+      await client.query('COMMIT');
+
+      return {
+        totalHits: parseInt(result.rows[0].total_hits, 10),
+        resetTime: new Date(parseInt(result.rows[0].oldest, 10) + this.windowMs),
+      };
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Remove the most recent hits for a specific key
+  async decrement(key: string, amount = 1): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM sliding_window_log
+       WHERE id IN (
+         SELECT id FROM sliding_window_log
+         WHERE key = $1
+         ORDER BY hit_time DESC, id DESC
+         LIMIT $2
+       )`,
+      [key, amount]
+    );
+  }
+
+  // Reset the hit log for a specific key
+  async resetKey(key: string): Promise<void> {
+    await this.pool.query('DELETE FROM sliding_window_log WHERE key = $1', [key]);
+  }
+
+  // Reset all keys and clear the hit log table
+  async resetAll(): Promise<void> {
+    await this.pool.query('TRUNCATE TABLE sliding_window_log');
+  }
+
+  // Gracefully shut down the store and close the connection pool
+  async shutdown(): Promise<void> {
+    await this.pool.end();
+  }
+}
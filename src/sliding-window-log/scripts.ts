@@ -0,0 +1,72 @@
+const scripts = {
+    /**
+     * Increment script for sliding window log rate limiting.
+     *
+     * Parameters:
+     * - KEYS[1]: the rate limit key (a sorted set of hit timestamps)
+     * - ARGV[1]: window duration in milliseconds
+     * - ARGV[2]: current timestamp in milliseconds
+     * - ARGV[3]: unique prefix for the members to record the hits under
+     * - ARGV[4]: number of hits to record
+     */
+    increment: `
+      local windowMs = tonumber(ARGV[1])
+      local now = tonumber(ARGV[2])
+
+      -- Drop the hits that have slid out of the window
+      redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now - windowMs)
+
+      -- Record the hits and keep the log alive for one more window
+      for i = 1, tonumber(ARGV[4]) do
+          redis.call("ZADD", KEYS[1], now, ARGV[3] .. ":" .. i)
+      end
+      redis.call("PEXPIRE", KEYS[1], windowMs)
+
+      local totalHits = redis.call("ZCARD", KEYS[1])
+      local oldest = redis.call("ZRANGE", KEYS[1], 0, 0, "WITHSCORES")
+
+      return {totalHits, oldest[2]}
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim(),
+
+    /**
+     * Get script for retrieving the current sliding window log status.
+     *
+     * Parameters:
+     * - KEYS[1]: the rate limit key
+     * - ARGV[1]: window duration in milliseconds
+     * - ARGV[2]: current timestamp in milliseconds
+     */
+    get: `
+      local windowMs = tonumber(ARGV[1])
+      local now = tonumber(ARGV[2])
+
+      redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now - windowMs)
+
+      local totalHits = redis.call("ZCARD", KEYS[1])
+      local oldest = redis.call("ZRANGE", KEYS[1], 0, 0, "WITHSCORES")
+
+      return {totalHits, oldest[2] or false}
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim(),
+
+    /**
+     * Decrement script, removes the most recent hits from the log.
+     *
+     * Parameters:
+     * - KEYS[1]: the rate limit key
+     * - ARGV[1]: number of hits to remove
+     */
+    decrement: `
+      redis.call("ZPOPMAX", KEYS[1], tonumber(ARGV[1]))
+
+      return redis.call("ZCARD", KEYS[1])
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim()
+  }
+
+  // Export scripts for use in Redis store implementation
+  export default scripts
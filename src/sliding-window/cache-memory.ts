@@ -0,0 +1,103 @@
+import scripts from './scripts'
+import type { Store, Options, ClientRateLimitInfo } from '../types'
+import { getEstimatedInfo, rollWindow, type WindowCounts } from './estimate'
+import { Redis as RedisClient } from 'ioredis';
+
+interface RedisStoreOptions {
+  client: RedisClient
+  prefix?: string
+  windowMs?: number
+}
+
+export default class SlidingWindowRedisStore implements Store {
+  public client: RedisClient
+  public prefix: string
+  public windowMs: number
+  public limit?: number
+
+  localKeys = false
+
+  constructor(options: RedisStoreOptions) {
+    this.client = options.client
+    this.prefix = options.prefix ?? 'rl-sw:'
+    this.windowMs = options.windowMs ?? 60000 // default 1 minute
+  }
+
+  init(options: Options) {
+    this.windowMs = options.windowMs
+    this.limit = typeof options.limit === 'number' ? options.limit : undefined
+  }
+
+  private prefixKey(key: string): string {
+    return `${this.prefix}${key}`
+  }
+
+  private parseCounts(results: unknown): WindowCounts {
+    if (!Array.isArray(results))
+      throw new TypeError('Expected result to be array of values')
+
+    if (results.length !== 3)
+      throw new Error(`Expected 3 replies, got ${results.length}`)
+
+    return {
+      previousHits: Number(results[0]),
+      currentHits: Number(results[1]),
+      windowStart: Number(results[2])
+    }
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const results = await this.client.eval(scripts.get, 1, this.prefixKey(key))
+    const counts = this.parseCounts(results)
+    if (counts.windowStart === 0) return undefined
+
+    const now = Date.now()
+    return getEstimatedInfo(
+      rollWindow(counts, now, this.windowMs),
+      now,
+      this.windowMs,
+      this.limit
+    )
+  }
+
+  async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
+    const now = Date.now()
+    const results = await this.client.eval(
+      scripts.update,
+      1,
+      this.prefixKey(key),
+      this.windowMs.toString(),
+      now.toString(),
+      amount.toString()
+    )
+
+    return getEstimatedInfo(this.parseCounts(results), now, this.windowMs, this.limit)
+  }
+
+  async decrement(key: string, amount = 1) {
+    await this.client.eval(
+      scripts.update,
+      1,
+      this.prefixKey(key),
+      this.windowMs.toString(),
+      Date.now().toString(),
+      (-amount).toString()
+    )
+  }
+
+  async resetKey(key: string) {
+    await this.client.del(this.prefixKey(key))
+  }
+
+  async resetAll() {
+    // Find all keys with the prefix and delete them
+    const keys = await this.client.keys(`${this.prefix}*`)
+    if (keys.length > 0) {
+      await this.client.del(...keys)
+    }
+  }
+
+  async shutdown() {
+    // For ioredis, typically no special shutdown is needed
+  }
+}
@@ -0,0 +1,113 @@
+import type { ClientRateLimitInfo } from '../types'
+
+/**
+ * The hit counts kept for a client by the sliding window counter stores.
+ *
+ * Windows are aligned to multiples of `windowMs` since the epoch, so every
+ * store agrees on where a window starts without having to remember it per key.
+ */
+export type WindowCounts = {
+	previousHits: number
+	currentHits: number
+	windowStart: number
+}
+
+/**
+ * Returns the start of the fixed window that `now` falls into.
+ *
+ * @param now {number} - The current time.
+ * @param windowMs {number} - The duration of a window (in milliseconds).
+ */
+export const getWindowStart = (now: number, windowMs: number): number =>
+	now - (now % windowMs)
+
+/**
+ * Moves a client's counts forward to the window that `now` falls into. The
+ * current count becomes the previous one after a single window has passed,
+ * and both are dropped after two.
+ *
+ * @param counts {WindowCounts} - The counts to roll forward (modified in place).
+ * @param now {number} - The current time.
+ * @param windowMs {number} - The duration of a window (in milliseconds).
+ *
+ * @returns {WindowCounts} - The same counts, to allow for chaining.
+ */
+export const rollWindow = (
+	counts: WindowCounts,
+	now: number,
+	windowMs: number,
+): WindowCounts => {
+	const windowStart = getWindowStart(now, windowMs)
+
+	if (counts.windowStart === windowStart) return counts
+
+	counts.previousHits =
+		counts.windowStart === windowStart - windowMs ? counts.currentHits : 0
+	counts.currentHits = 0
+	counts.windowStart = windowStart
+
+	return counts
+}
+
+/**
+ * Takes hits back from a client's counts. Hits that were counted before the
+ * window rolled over are taken back from the previous window.
+ *
+ * @param counts {WindowCounts} - The counts, already rolled to now (modified in place).
+ * @param amount {number} - The number of hits to take back.
+ */
+export const refundHits = (counts: WindowCounts, amount: number): void => {
+	const fromCurrent = Math.min(amount, counts.currentHits)
+
+	counts.currentHits -= fromCurrent
+	counts.previousHits = Math.max(counts.previousHits - (amount - fromCurrent), 0)
+}
+
+/**
+ * Calculates the interpolated hit count for a client, weighting the previous
+ * window's hits by how much of it still overlaps the sliding window.
+ *
+ * While the client is under `limit`, the reset time is the moment all of its
+ * hits have decayed out of the sliding window. Once it is at or over the limit,
+ * it is the moment the estimate drops far enough for one more hit to fit. When
+ * the limit is not known up front (it is a function of the request), the end
+ * of the current window is used instead.
+ *
+ * @param counts {WindowCounts} - The client's counts, already rolled to `now`.
+ * @param now {number} - The current time.
+ * @param windowMs {number} - The duration of a window (in milliseconds).
+ * @param limit {number | undefined} - The maximum number of hits per window, if known.
+ *
+ * @returns {ClientRateLimitInfo} - The estimated number of hits and reset time for that client.
+ */
+export const getEstimatedInfo = (
+	{ previousHits, currentHits, windowStart }: WindowCounts,
+	now: number,
+	windowMs: number,
+	limit?: number,
+): ClientRateLimitInfo => {
+	const overlap = 1 - (now - windowStart) / windowMs
+	const totalHits = Math.floor(previousHits * overlap) + currentHits
+	const windowEnd = windowStart + windowMs
+
+	if (limit === undefined) {
+		return { totalHits, resetTime: new Date(windowEnd) }
+	}
+
+	let resetTime: number
+	if (totalHits < limit) {
+		resetTime = currentHits > 0 ? windowEnd + windowMs : windowEnd
+	} else if (currentHits < limit) {
+		// Wait for the previous window's weight to fall below the room left.
+		resetTime =
+			previousHits > 0
+				? windowStart + windowMs * Math.max(0, 1 - (limit - currentHits) / previousHits)
+				: windowStart
+	} else {
+		// The current window alone fills the limit, so wait for it to become the
+		// previous window and decay.
+		resetTime = windowEnd + windowMs * Math.max(0, 1 - limit / currentHits)
+	}
+
+	return { totalHits, resetTime: new Date(Math.ceil(Math.max(resetTime, now))) }
+}
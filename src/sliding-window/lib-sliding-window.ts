@@ -0,0 +1,30 @@
+import type { Options, RateLimitRequestHandler } from '../types'
+import fixedWindow from '../fixed-window/lib-fixed-window'
+import MemorySlidingWindowStore from './memory-sw'
+
+/**
+ *
+ * Create an instance of sliding window counter rate-limiting middleware for
+ * Express.
+ *
+ * Only the hit counts of the previous and current window are kept per client,
+ * and the previous count is weighted by how much of it still overlaps the
+ * sliding window. This smooths out bursts at the window boundary for a
+ * fraction of the memory the sliding window log needs.
+ *
+ * @param passedOptions {Options} - Options to configure the rate limiter.
+ *
+ * @returns {RateLimitRequestHandler} - The middleware that rate-limits clients based on your configuration.
+ *
+ * @public
+ */
+const slidingWindow = (
+	passedOptions?: Partial<Options>
+): RateLimitRequestHandler =>
+	fixedWindow({
+		...passedOptions,
+		store: passedOptions?.store ?? new MemorySlidingWindowStore(),
+	})
+
+// Export it to the world!
+export default slidingWindow
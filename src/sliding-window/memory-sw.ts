@@ -0,0 +1,175 @@
+import type { Store, Options, ClientRateLimitInfo } from '../types'
+import { getEstimatedInfo, refundHits, rollWindow, type WindowCounts } from './estimate'
+
+/**
+ * A `Store` that keeps the hit counts of the previous and current window for
+ * each client in memory, and interpolates between them to approximate a
+ * sliding window.
+ *
+ * @public
+ */
+export default class MemorySlidingWindowStore implements Store {
+	/**
+	 * The duration of a window (in milliseconds).
+	 */
+	windowMs!: number
+
+	/**
+	 * The maximum number of hits per window, if it does not depend on the request.
+	 */
+	limit?: number
+
+	/**
+	 * The previous and current window counts for each client.
+	 */
+	clients = new Map<string, WindowCounts>()
+
+	/**
+	 * A reference to the active timer.
+	 */
+	interval?: NodeJS.Timeout
+
+	/**
+	 * Confirmation that the keys incremented in once instance of MemoryStore
+	 * cannot affect other instances.
+	 */
+	localKeys = true
+
+	/**
+	 * Method that initializes the store.
+	 *
+	 * @param options {Options} - The options used to setup the middleware.
+	 */
+	init(options: Options): void {
+		this.windowMs = options.windowMs
+		this.limit = typeof options.limit === 'number' ? options.limit : undefined
+
+		// Indicates that init was called more than once.
+		// Could happen if a store was shared between multiple instances.
+		if (this.interval) clearInterval(this.interval)
+
+		// Drop the clients that have not been seen for two windows every `windowMs`.
+		this.interval = setInterval(() => {
+			this.clearExpired()
+		}, this.windowMs)
+
+		// Cleaning up the interval will be taken care of by the `shutdown` method.
+		if (this.interval.unref) this.interval.unref()
+	}
+
+	/**
+	 * Method to fetch a client's estimated hit count and reset time.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 *
+	 * @returns {ClientRateLimitInfo | undefined} - The number of hits and reset time for that client.
+	 *
+	 * @public
+	 */
+	async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+		const client = this.clients.get(key)
+		if (!client) return undefined
+
+		const now = Date.now()
+		rollWindow(client, now, this.windowMs)
+
+		return getEstimatedInfo(client, now, this.windowMs, this.limit)
+	}
+
+	/**
+	 * Method to increment a client's hit counter.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 * @param amount {number} - The number of hits to add.
+	 *
+	 * @returns {ClientRateLimitInfo} - The number of hits and reset time for that client.
+	 *
+	 * @public
+	 */
+	async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
+		const now = Date.now()
+		const client = rollWindow(this.getClient(key), now, this.windowMs)
+
+		client.currentHits += amount
+
+		return getEstimatedInfo(client, now, this.windowMs, this.limit)
+	}
+
+	/**
+	 * Method to decrement a client's hit counter. If the window has rolled over
+	 * since the hit was counted, it is taken back from the previous window.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 * @param amount {number} - The number of hits to take back.
+	 *
+	 * @public
+	 */
+	async decrement(key: string, amount = 1): Promise<void> {
+		const client = this.clients.get(key)
+		if (!client) return
+
+		refundHits(rollWindow(client, Date.now(), this.windowMs), amount)
+	}
+
+	/**
+	 * Method to reset a client's hit counter.
+	 *
+	 * @param key {string} - The identifier for a client.
+	 *
+	 * @public
+	 */
+	async resetKey(key: string): Promise<void> {
+		this.clients.delete(key)
+	}
+
+	/**
+	 * Method to reset everyone's hit counter.
+	 *
+	 * @public
+	 */
+	async resetAll(): Promise<void> {
+		this.clients.clear()
+	}
+
+	/**
+	 * Method to stop the timer (if currently running) and prevent any memory
+	 * leaks.
+	 *
+	 * @public
+	 */
+	shutdown(): void {
+		clearInterval(this.interval)
+		void this.resetAll()
+	}
+
+	/**
+	 * Retrieves or creates a client, given a key.
+	 *
+	 * @param key {string} - The key under which the client is (or is to be) stored.
+	 *
+	 * @returns {WindowCounts} - The requested client.
+	 */
+	private getClient(key: string): WindowCounts {
+		let client = this.clients.get(key)
+		if (!client) {
+			client = { previousHits: 0, currentHits: 0, windowStart: 0 }
+			this.clients.set(key, client)
+		}
+
+		return client
+	}
+
+	/**
+	 * Removes the clients whose counts no longer affect the sliding window.
+	 *
+	 * This function is called every `windowMs`.
+	 */
+	private clearExpired(): void {
+		const now = Date.now()
+		for (const [key, client] of this.clients) {
+			rollWindow(client, now, this.windowMs)
+			if (client.previousHits === 0 && client.currentHits === 0)
+				this.clients.delete(key)
+		}
+	}
+}
@@ -0,0 +1,133 @@
+import { Pool } from 'pg'; // PostgreSQL client library
+import type { Store, Options, ClientRateLimitInfo } from '../types';
+import { getEstimatedInfo, refundHits, rollWindow, type WindowCounts } from './estimate';
+
+// A row of the `sliding_window` table. `pg` returns BIGINT columns as strings,
+// since they might not fit in a number.
+interface WindowRow {
+  window_start: string;
+  previous_hits: number;
+  current_hits: number;
+}
+
+export default class PostgresSlidingWindowStore implements Store {
+  private pool: Pool;
+  private windowMs!: number;
+  private limit?: number;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  // Initialize the store by creating the table if it doesn't exist
+  async init(options: Options): Promise<void> {
+    this.windowMs = options.windowMs;
+    this.limit = typeof options.limit === 'number' ? options.limit : undefined;
+
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS sliding_window (
+        key TEXT PRIMARY KEY,
+        window_start BIGINT NOT NULL,
+        previous_hits INT NOT NULL,
+        current_hits INT NOT NULL
+      )
+    `);
+  }
+
+  // Get the estimated hit count for a specific key
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const result = await this.pool.query<WindowRow>(
+      'SELECT window_start, previous_hits, current_hits FROM sliding_window WHERE key = $1',
+      [key]
+    );
+
+    if (result.rows.length === 0) return undefined;
+
+    const now = Date.now();
+    const counts = rollWindow(this.toCounts(result.rows[0]), now, this.windowMs);
+
+    return getEstimatedInfo(counts, now, this.windowMs, this.limit);
+  }
+
+  // Increment the current window's hit count for a specific key
+  async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
+    const now = Date.now();
+    const counts = await this.update(key, now, (counts) => {
+      counts.currentHits += amount;
+    });
+
+    return getEstimatedInfo(counts, now, this.windowMs, this.limit);
+  }
+
+  // Take hits back, from the previous window if it has rolled over since
+  async decrement(key: string, amount = 1): Promise<void> {
+    await this.update(key, Date.now(), (counts) => refundHits(counts, amount));
+  }
+
+  // Reset the counts for a specific key
+  async resetKey(key: string): Promise<void> {
+    await this.pool.query('DELETE FROM sliding_window WHERE key = $1', [key]);
+  }
+
+  // Reset all keys and clear the table
+  async resetAll(): Promise<void> {
+    await this.pool.query('TRUNCATE TABLE sliding_window');
+  }
+
+  // Gracefully shut down the store and close the connection pool
+  async shutdown(): Promise<void> {
+    await this.pool.end();
+  }
+
+  // Lock a key's row, roll it forward to the current window, apply a change and save it
+  private async update(
+    key: string,
+    now: number,
+    change: (counts: WindowCounts) => void
+  ): Promise<WindowCounts> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Make sure the row exists so that it can be locked
+      await client.query(
+        `INSERT INTO sliding_window (key, window_start, previous_hits, current_hits)
+         VALUES ($1, 0, 0, 0)
+         ON CONFLICT (key) DO NOTHING`,
+        [key]
+      );
+      const result = await client.query<WindowRow>(
+        'SELECT window_start, previous_hits, current_hits FROM sliding_window WHERE key = $1 FOR UPDATE',
+        [key]
+      );
+
+      const counts = rollWindow(this.toCounts(result.rows[0]), now, this.windowMs);
+      change(counts);
+
+      await client.query(
+        `UPDATE sliding_window
+         SET window_start = $1, previous_hits = $2, current_hits = $3
+         WHERE key = $4`,
+        [counts.windowStart, counts.previousHits, counts.currentHits, key]
+      );
+
+      await client.query('COMMIT');
+
+      return counts;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  private toCounts(row: WindowRow): WindowCounts {
+    return {
+      windowStart: Number(row.window_start),
+      previousHits: Number(row.previous_hits),
+      currentHits: Number(row.current_hits),
+    };
+  }
+}
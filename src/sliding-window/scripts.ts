@@ -0,0 +1,64 @@
+const scripts = {
+    /**
+     * Increment script for sliding window counter rate limiting.
+     *
+     * Parameters:
+     * - KEYS[1]: the rate limit key (a hash of `start`, `previous` and `current`)
+     * - ARGV[1]: window duration in milliseconds
+     * - ARGV[2]: current timestamp in milliseconds
+     * - ARGV[3]: amount to add to the current window (negative to decrement)
+     */
+    update: `
+      local windowMs = tonumber(ARGV[1])
+      local now = tonumber(ARGV[2])
+      local amount = tonumber(ARGV[3])
+      local windowStart = now - (now % windowMs)
+
+      local state = redis.call("HMGET", KEYS[1], "start", "previous", "current")
+      local storedStart = tonumber(state[1])
+      local previous = tonumber(state[2]) or 0
+      local current = tonumber(state[3]) or 0
+
+      -- Roll the counts forward to the window that now falls into
+      if not storedStart or storedStart < windowStart - windowMs then
+          previous = 0
+          current = 0
+      elseif storedStart < windowStart then
+          previous = current
+          current = 0
+      end
+
+      if amount >= 0 then
+          current = current + amount
+      else
+          -- Hits counted before the window rolled over are taken from the previous window
+          local fromCurrent = math.min(-amount, current)
+          current = current - fromCurrent
+          previous = math.max(previous - (-amount - fromCurrent), 0)
+      end
+
+      redis.call("HSET", KEYS[1], "start", windowStart, "previous", previous, "current", current)
+      redis.call("PEXPIRE", KEYS[1], windowMs * 2)
+
+      return {previous, current, windowStart}
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim(),
+
+    /**
+     * Get script for retrieving the current window counts.
+     *
+     * Parameters:
+     * - KEYS[1]: the rate limit key
+     */
+    get: `
+      local state = redis.call("HMGET", KEYS[1], "start", "previous", "current")
+
+      return {state[2] or 0, state[3] or 0, state[1] or 0}
+    `
+    .replaceAll(/^\s+/gm, '')
+    .trim()
+  }
+
+  // Export scripts for use in Redis store implementation
+  export default scripts
@@ -37,7 +37,7 @@ export default class RedisTokenBucketStore implements BucketStore {
         );
     }
 
-    async increment(key: string): Promise<ClientRateLimitInfo> {
+    async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
         const now = Date.now();
 
         const [canConsume, remainingTokens, resetTime] = await this.redis.evalsha(
@@ -47,14 +47,16 @@ export default class RedisTokenBucketStore implements BucketStore {
             now,
             this.refillInterval,
             this.bucketCapacity,
-            this.tokensPerInterval
+            this.tokensPerInterval,
+            amount
         ) as [number, number, number];
         console.log("canConsume", canConsume)
         console.log("remainingTokens", remainingTokens)
         console.log("resetTime", resetTime)
 
         return {
-            totalHits: remainingTokens,
+            // Report how many tokens short the bucket was if none were consumed
+            totalHits: canConsume === 1 ? remainingTokens : remainingTokens - amount,
             resetTime: new Date(resetTime),
         };
     }
@@ -78,12 +80,13 @@ export default class RedisTokenBucketStore implements BucketStore {
         };
     }
 
-    async decrement(key: string): Promise<void> {
+    async decrement(key: string, amount = 1): Promise<void> {
         await this.redis.evalsha(
             this.returnTokenSha,
             1,  // Number of keys
             key,
-            this.bucketCapacity
+            this.bucketCapacity,
+            amount
         );
     }
 
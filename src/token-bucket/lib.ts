@@ -8,9 +8,11 @@ import type {
 import {
 	setDraft6Headers,
 	setDraft7Headers,
+	setDraft8Headers,
 	setRetryAfterHeader,
 } from '../header';
 import { parseOptions, handleAsyncErrors, getOptionsFromConfig } from '../BucketparseConfig';
+import { checkCost } from '../parseConfig';
 
 const tokenBucket = (
 	passedOptions?: Partial<BucketOptions>,
@@ -35,10 +37,19 @@ const tokenBucket = (
 			const augmentedRequest = request as AugmentedRequest;
 			const key = await config.keyGenerator(request, response);
 
+			// Get the number of tokens this request costs.
+			const retrieveCost =
+				typeof config.cost === 'function'
+					? config.cost(request, response)
+					: config.cost;
+			const cost = checkCost(await retrieveCost);
+
+			// The store reports a negative number of tokens when the bucket did
+			// not hold enough to pay for the request.
 			let tokensRemaining = 0;
 			let resetTime;
 			try {
-				const incrementResult = await config.store.increment(key);
+				const incrementResult = await config.store.increment(key, cost);
 				tokensRemaining = incrementResult.totalHits;
 				resetTime = incrementResult.resetTime;
 				console.log(`Tokens remaining: ${tokensRemaining}`);
@@ -67,8 +78,8 @@ const tokenBucket = (
 
 			const info: RateLimitInfo = {
 				limit,
-				used: tokensRemaining,
-				remaining: Math.max(limit - tokensRemaining, 0),
+				used: limit - Math.max(tokensRemaining, 0),
+				remaining: Math.max(tokensRemaining, 0),
 				resetTime,
 			};
 
@@ -86,14 +97,35 @@ const tokenBucket = (
 				} else if (config.standardHeaders === 'draft-7') {
 					config.validations.headersResetTime(info.resetTime);
 					setDraft7Headers(response, info, refillInterval);
+				} else if (config.standardHeaders === 'draft-8') {
+					const retrieveName =
+						typeof config.identifier === 'function'
+							? config.identifier(request, response)
+							: config.identifier;
+					const name = await retrieveName;
+
+					config.validations.headersResetTime(info.resetTime);
+					setDraft8Headers(response, info, refillInterval, name, key);
+				}
+			}
+
+			config.validations.disable();
+
+			// Rejected requests never took any tokens, so there is nothing to give
+			// back for them.
+			if (tokensRemaining < 0) {
+				if (config.standardHeaders) {
+					setRetryAfterHeader(response, info, refillInterval);
 				}
+				config.handler(request, response, next, options);
+				return;
 			}
 
 			if (config.skipFailedRequests || config.skipSuccessfulRequests) {
 				let decremented = false;
 				const decrementKey = async () => {
 					if (!decremented) {
-						await config.store.decrement(key);
+						await config.store.decrement(key, cost);
 						decremented = true;
 					}
 				};
@@ -119,15 +151,6 @@ const tokenBucket = (
 				}
 			}
 
-			config.validations.disable();
-
-			if (tokensRemaining == 0) {
-				if (config.standardHeaders) {
-					setRetryAfterHeader(response, info, refillInterval);
-				}
-				config.handler(request, response, next, options);
-				return;
-			}
 			next();
 		},
 	);
@@ -74,15 +74,16 @@ export default class MemoryTokenBucketStore implements BucketStore {
     }
 
     /**
-     * Increment the token bucket for a client by consuming one token.
+     * Increment the token bucket for a client by consuming tokens.
      *
      * @param key {string} - The identifier for a client.
+     * @param amount {number} - The number of tokens to consume.
      *
-     * @returns {ClientRateLimitInfo} - The remaining tokens and reset time for that client.
+     * @returns {ClientRateLimitInfo} - The remaining tokens (or the negative shortfall if they could not be consumed) and reset time for that client.
      *
      * @public
      */
-    async increment(key: string): Promise<ClientRateLimitInfo> {
+    async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
         console.debug(`Incrementing token bucket for key: ${key}`);
         const client = this.getClient(key);
         const now = Date.now();
@@ -90,14 +91,18 @@ export default class MemoryTokenBucketStore implements BucketStore {
         this.refillTokens(client, now);
         console.debug(`Tokens after refill: ${client.tokens}`);
 
-        if (client.tokens > 0) {
-            client.tokens--;
-            console.debug(`Token consumed. Remaining tokens: ${client.tokens}`);
-        } else {
-            console.debug(`No tokens available to consume for key: ${key}`);
-            
+        if (client.tokens < amount) {
+            console.debug(`Not enough tokens available to consume for key: ${key}`);
+
+            return {
+                totalHits: client.tokens - amount,
+                resetTime: new Date(client.lastRefillTime + this.refillInterval),
+            };
         }
 
+        client.tokens -= amount;
+        console.debug(`Tokens consumed. Remaining tokens: ${client.tokens}`);
+
         return {
             totalHits: client.tokens,
             resetTime: new Date(client.lastRefillTime + this.refillInterval),
@@ -105,18 +110,17 @@ export default class MemoryTokenBucketStore implements BucketStore {
     }
 
     /**
-     * Decrement the token bucket for a client by adding back one token.
+     * Decrement the token bucket for a client by adding back tokens.
      *
      * @param key {string} - The identifier for a client.
+     * @param amount {number} - The number of tokens to add back.
      *
      * @public
      */
-    async decrement(key: string): Promise<void> {
+    async decrement(key: string, amount = 1): Promise<void> {
         const client = this.getClient(key);
 
-        if (client.tokens < this.bucketCapacity) {
-            client.tokens++;
-        }
+        client.tokens = Math.min(client.tokens + amount, this.bucketCapacity);
     }
 
     /**
@@ -37,7 +37,7 @@ export default class PostgresTokenBucketStore implements BucketStore {
   }
     }
 
-    async increment(key: string): Promise<ClientRateLimitInfo> {
+    async increment(key: string, amount = 1): Promise<ClientRateLimitInfo> {
         const now = Date.now();
 
         // Start a transaction
@@ -51,7 +51,7 @@ export default class PostgresTokenBucketStore implements BucketStore {
                 [key]
             );
 
-            let currentTokens = 0;
+            let currentTokens = this.bucketCapacity;
             let lastRefillTime = now;
 
             if (result.rowCount && result.rowCount > 0) {
@@ -65,9 +65,9 @@ export default class PostgresTokenBucketStore implements BucketStore {
             const tokensToAdd = Math.floor((elapsedTime / 1000) * this.tokensPerInterval);
             const newTokens = Math.min(currentTokens + tokensToAdd, this.bucketCapacity);
 
-            // Consume a token if available
-            const canConsume = newTokens > 0;
-            const updatedTokens = canConsume ? newTokens - 1 : newTokens;
+            // Consume the tokens if enough are available
+            const canConsume = newTokens >= amount;
+            const updatedTokens = canConsume ? newTokens - amount : newTokens;
 
             // Upsert the bucket state
             await client.query(
@@ -81,7 +81,8 @@ export default class PostgresTokenBucketStore implements BucketStore {
             await client.query('COMMIT');
 
             return {
-                totalHits: updatedTokens,
+                // Report how many tokens short the bucket was if none were consumed
+                totalHits: canConsume ? updatedTokens : updatedTokens - amount,
                 resetTime: new Date(lastRefillTime + this.refillInterval),
             };
         } catch (error) {
@@ -111,7 +112,7 @@ export default class PostgresTokenBucketStore implements BucketStore {
         };
     }
 
-    async decrement(key: string): Promise<void> {
+    async decrement(key: string, amount = 1): Promise<void> {
         const client = await this.pool.connect();
         try {
             await client.query('BEGIN');
@@ -124,7 +125,7 @@ export default class PostgresTokenBucketStore implements BucketStore {
 
             if (result.rowCount !== null && result.rowCount > 0) {
                 const currentTokens = parseInt(result.rows[0].tokens, 10);
-                const newTokens = Math.min(currentTokens + 1, this.bucketCapacity);
+                const newTokens = Math.min(currentTokens + amount, this.bucketCapacity);
 
                 // Update tokens
                 await client.query(
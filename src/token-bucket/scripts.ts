@@ -8,6 +8,7 @@ local now = tonumber(ARGV[1])
 local refillInterval = tonumber(ARGV[2])
 local bucketCapacity = tonumber(ARGV[3])
 local tokensPerInterval = tonumber(ARGV[4])
+local amount = tonumber(ARGV[5] or 1)
 
 -- Get current bucket state
 local bucketState = redis.call('HMGET', key, 'tokens', 'lastRefillTime')
@@ -27,10 +28,10 @@ local tokensToAdd = math.floor((elapsedTime / 1000) * tokensPerInterval)
 -- Update tokens (not exceeding capacity)
 local newTokens = math.min(currentTokens + tokensToAdd, bucketCapacity)
 
--- Consume token if available
-local canConsume = newTokens > 0
+-- Consume tokens if enough are available
+local canConsume = newTokens >= amount
 if canConsume then
-    newTokens = newTokens - 1
+    newTokens = newTokens - amount
 end
 
 -- Update Redis
@@ -55,9 +56,10 @@ return {
   RETURN_TOKEN: `
       local key = KEYS[1]
       local bucketCapacity = tonumber(ARGV[1])
+      local amount = tonumber(ARGV[2] or 1)
 
       local currentTokens = tonumber(redis.call('HGET', key, 'tokens') or 0)
-      local newTokens = math.min(currentTokens + 1, bucketCapacity)
+      local newTokens = math.min(currentTokens + amount, bucketCapacity)
 
       redis.call('HSET', key, 'tokens', newTokens)
 
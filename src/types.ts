@@ -55,6 +55,20 @@ export type RateLimitExceededEventHandler1 = (
 ) => void
 
 
+export type ConcurrencyLimitExceededEventHandler = (
+	request: Request,
+	response: Response,
+	next: NextFunction,
+	optionsUsed: ConcurrencyOptions,
+) => void
+
+export type MultiWindowLimitExceededEventHandler = (
+	request: Request,
+	response: Response,
+	next: NextFunction,
+	optionsUsed: MultiWindowOptions,
+) => void
+
 /**
  * Event callback that is triggered on a client's first request that exceeds the limit
  * but not for subsequent requests. May be used for logging, etc. Should *not*
@@ -90,6 +104,19 @@ export type ClientRateLimitInfo = {
 
 export type IncrementResponse = ClientRateLimitInfo
 
+/**
+ * Data returned from the `Store` when a request is counted against several
+ * keys at once. The keys are in the same order as they were passed, and none of
+ * them are counted unless the request fits under the limit of every one.
+ *
+ * @property accepted {boolean} - Whether the request fitted, and was counted.
+ * @property keys {ClientRateLimitInfo[]} - The number of hits and reset time for each key.
+ */
+export type IncrementAllResponse = {
+	accepted: boolean
+	keys: ClientRateLimitInfo[]
+}
+
 /**
  * A modified Express request handler with the rate limit functions.
  */
@@ -117,6 +144,20 @@ export type RateLimitRequestHandler = RequestHandler & {
 }
 
 
+/**
+ * The multi-window middleware, with the functions to reset and fetch the hit
+ * counts of a client.
+ */
+export type MultiWindowRequestHandler = RequestHandler & {
+	resetKey: (key: string) => void
+	getKey: (
+		key: string,
+	) =>
+		| Promise<ClientRateLimitInfo[] | undefined>
+		| ClientRateLimitInfo[]
+		| undefined
+}
+
 /**
  * An interface that all hit counter stores must implement.
  */
@@ -129,8 +170,102 @@ export type Store = {
 		| Promise<ClientRateLimitInfo | undefined>
 		| ClientRateLimitInfo
 		| undefined
-	increment: (key: string) => Promise<IncrementResponse> | IncrementResponse
-	decrement: (key: string) => Promise<void> | void
+	increment: (
+		key: string,
+		amount?: number,
+	) => Promise<IncrementResponse> | IncrementResponse
+	// Counts a request against several keys in one step, only if it fits under
+	// the limit of every one of them. Needed by the hierarchical limiter.
+	incrementAll?: (
+		keys: string[],
+		limits: number[],
+		amount?: number,
+	) => Promise<IncrementAllResponse> | IncrementAllResponse
+	decrement: (key: string, amount?: number) => Promise<void> | void
+	resetKey: (key: string) => Promise<void> | void
+	resetAll?: () => Promise<void> | void
+	shutdown?: () => Promise<void> | void
+	localKeys?: boolean
+	prefix?: string
+}
+
+/**
+ * Data returned from the `ConcurrencyStore` when a client tries to take a slot.
+ *
+ * @property acquired {boolean} - Whether a slot was free and is now held by the request.
+ * @property inFlight {number} - The number of slots the client holds, including this request's.
+ */
+export type AcquireResponse = {
+	acquired: boolean
+	inFlight: number
+}
+
+/**
+ * An interface that all in-flight request stores must implement. Every slot is
+ * held under a lease that expires after `leaseMs`, so that slots held by a
+ * crashed process are eventually freed.
+ */
+export type ConcurrencyStore = {
+	init?: (options: ConcurrencyOptions) => void
+
+	get?: (
+		key: string,
+	) =>
+		| Promise<ClientRateLimitInfo | undefined>
+		| ClientRateLimitInfo
+		| undefined
+	acquire: (
+		key: string,
+		leaseId: string,
+		limit: number,
+	) => Promise<AcquireResponse> | AcquireResponse
+	release: (key: string, leaseId: string) => Promise<void> | void
+	resetKey: (key: string) => Promise<void> | void
+	resetAll?: () => Promise<void> | void
+	shutdown?: () => Promise<void> | void
+	localKeys?: boolean
+	prefix?: string
+}
+
+/**
+ * A single window enforced by the multi-window limiter, e.g. 1000 requests per
+ * hour.
+ */
+export type WindowPolicy = {
+	windowMs: number
+	limit: number
+	// Name of the quota policy sent in the draft-8 headers
+	identifier?: string
+}
+
+/**
+ * The data returned by the multi-window store after a request. The windows are
+ * in the same order as they were passed in the options.
+ */
+export type MultiWindowIncrementResponse = {
+	accepted: boolean
+	windows: ClientRateLimitInfo[]
+}
+
+/**
+ * An interface that all multi-window stores must implement. The request is
+ * checked against every window at once, and only counted if it fits into all
+ * of them.
+ */
+export type MultiWindowStore = {
+	init?: (options: MultiWindowOptions) => void
+
+	get?: (
+		key: string,
+	) =>
+		| Promise<ClientRateLimitInfo[] | undefined>
+		| ClientRateLimitInfo[]
+		| undefined
+	increment: (
+		key: string,
+		amount?: number,
+	) => Promise<MultiWindowIncrementResponse> | MultiWindowIncrementResponse
+	decrement: (key: string, amount?: number) => Promise<void> | void
 	resetKey: (key: string) => Promise<void> | void
 	resetAll?: () => Promise<void> | void
 	shutdown?: () => Promise<void> | void
@@ -159,20 +294,24 @@ export interface BucketStore {
     get(key: string): Promise<ClientRateLimitInfo | undefined>;
 
     /**
-     * Increments (consumes) one token from the client's token bucket.
+     * Increments (consumes) tokens from the client's token bucket.
      * 
      * @param key - The unique identifier for a client.
+     * @param amount - The number of tokens to consume (defaults to 1).
      * @returns A promise with the updated rate limit information for the client.
+     * `totalHits` holds the tokens left in the bucket, or the (negative) number
+     * of tokens the bucket was short by if they could not be consumed.
      */
-    increment(key: string): Promise<ClientRateLimitInfo>;
+    increment(key: string, amount?: number): Promise<ClientRateLimitInfo>;
 
     /**
-     * Decrements (adds back) one token to the client's token bucket.
+     * Decrements (adds back) tokens to the client's token bucket.
      * 
      * @param key - The unique identifier for a client.
+     * @param amount - The number of tokens to add back (defaults to 1).
      * @returns A promise that resolves when the operation is complete.
      */
-    decrement(key: string): Promise<void>;
+    decrement(key: string, amount?: number): Promise<void>;
 
     /**
      * Resets the token bucket for a specific client.
@@ -225,7 +364,7 @@ export interface BucketStore {
 }
 
   
-export type DraftHeadersVersion = 'draft-6' | 'draft-7'
+export type DraftHeadersVersion = 'draft-6' | 'draft-7' | 'draft-8'
 
 /**
  * Validate configuration object for enabling or disabling specific validations.
@@ -242,6 +381,13 @@ export type EnabledValidations = {
  * An interface that defines the operations for a generic store.
  */
 export interface StoreInterface {
+	/**
+	 * Called by ZShield with its options, so that the store blocks clients at
+	 * the same score, and for as long, as the middleware does.
+	 * @param options - The suspicion threshold and block duration in milliseconds.
+	 */
+	init?(options: { suspicionThreshold: number; blockDurationMs: number }): void;
+
 	/**
 	 * Sets a key in the store with a score and TTL.
 	 * @param key - The key to store.
@@ -261,8 +407,9 @@ export interface StoreInterface {
 	 * Increments the score for a given key, setting it if it does not exist.
 	 * @param key - The key to increment.
 	 * @param ttl - The time-to-live (TTL) in milliseconds.
+	 * @param amount - The anomaly score to add, 1 if not given.
 	 */
-	increment(key: string, ttl: number): Promise<number>;
+	increment(key: string, ttl: number, amount?: number): Promise<number>;
 
 	/**
 	 * Deletes the given key from the store.
@@ -281,6 +428,53 @@ export interface StoreInterface {
 	 * @returns The block expiry timestamp, or `null` if the key is not blocked.
 	 */
 	isBlocked(key: string): Promise<boolean>;
+
+	/**
+	 * Blocks a key for a specified duration, whatever its score. This and the
+	 * three methods below are optional, so that stores written before them still
+	 * work: ZShield's methods of the same name throw if the store lacks them.
+	 * @param key - The key to block.
+	 * @param duration - The block duration in milliseconds.
+	 */
+	block?(key: string, duration: number): Promise<void>;
+
+	/**
+	 * Lifts the block on a key, and resets its score.
+	 * @param key - The key to unblock.
+	 */
+	unblock?(key: string): Promise<void>;
+
+	/**
+	 * Lists the keys that are blocked right now.
+	 * @returns Each blocked key, with its score and when the block expires.
+	 */
+	listBlocked?(): Promise<Array<{ key: string; score: number; expiry: number }>>;
+
+	/**
+	 * Clears all scores and blocks from the store. IP lists are kept.
+	 */
+	clear?(): Promise<void>;
+
+	/**
+	 * Returns the CIDR ranges saved to an IP list. Only stores that share the
+	 * lists between servers implement this and the two methods below.
+	 * @param list - The list, `allow` or `deny`.
+	 */
+	getIpList?(list: 'allow' | 'deny'): Promise<string[]>;
+
+	/**
+	 * Saves a CIDR range to an IP list.
+	 * @param list - The list, `allow` or `deny`.
+	 * @param cidr - The range to add, e.g. `10.0.0.0/8`.
+	 */
+	addToIpList?(list: 'allow' | 'deny', cidr: string): Promise<void>;
+
+	/**
+	 * Removes a CIDR range from an IP list.
+	 * @param list - The list, `allow` or `deny`.
+	 * @param cidr - The range to remove.
+	 */
+	removeFromIpList?(list: 'allow' | 'deny', cidr: string): Promise<void>;
 }
 
 /**
@@ -290,9 +484,11 @@ export type Options = {
 
 	windowMs: number
 	limit: number | ValueDeterminingMiddleware<number>
+	cost: number | ValueDeterminingMiddleware<number>
 	message: any | ValueDeterminingMiddleware<any>
 	statusCode: number
 	standardHeaders: boolean | DraftHeadersVersion
+	identifier: string | ValueDeterminingMiddleware<string>
 	requestPropertyName: string
 	skipFailedRequests: boolean
 	skipSuccessfulRequests: boolean
@@ -308,15 +504,36 @@ export type Options = {
 }
   
 
+/**
+ * A single level of a hierarchical quota, e.g. each user, each organization or
+ * everyone at once.
+ */
+export type QuotaLevel = {
+	// The name of the level, also used to namespace its keys in the store
+	name: string
+	keyGenerator: ValueDeterminingMiddleware<string>
+	limit: number | ValueDeterminingMiddleware<number>
+}
+
+/**
+ * The configuration options for the hierarchical limiter. The `limit` and
+ * `keyGenerator` options are replaced by those of each level.
+ */
+export type HierarchicalOptions = Options & {
+	levels: QuotaLevel[]
+}
+
 export type BucketOptions = {
 	Limit : number | ValueDeterminingMiddleware<number>
 	maxTokens: number | ValueDeterminingMiddleware<number> // for TokenBucket
 	refillInterval ?: number | ValueDeterminingMiddleware<number> // for TokenBucket
 	refillRate: number | undefined;   // for TokenBucket
 	LeakRate: number | undefined;      // for leaky
+	cost: number | ValueDeterminingMiddleware<number> // tokens consumed per request
 	message: any | ValueDeterminingMiddleware<any>
 	statusCode: number
 	standardHeaders: boolean | DraftHeadersVersion
+	identifier: string | ValueDeterminingMiddleware<string>
 	requestPropertyName: string
 	skipFailedRequests: boolean
 	skipSuccessfulRequests: boolean
@@ -331,6 +548,46 @@ export type BucketOptions = {
 }
   
 
+/**
+ * The configuration options for the multi-window limiter.
+ */
+export type MultiWindowOptions = {
+	windows: WindowPolicy[]
+	cost: number | ValueDeterminingMiddleware<number>
+	message: any | ValueDeterminingMiddleware<any>
+	statusCode: number
+	standardHeaders: boolean | DraftHeadersVersion
+	requestPropertyName: string
+	skipFailedRequests: boolean
+	skipSuccessfulRequests: boolean
+	keyGenerator: ValueDeterminingMiddleware<string>
+	handler: MultiWindowLimitExceededEventHandler
+	skip: ValueDeterminingMiddleware<boolean>
+	requestWasSuccessful: ValueDeterminingMiddleware<boolean>
+	store: MultiWindowStore
+	validate: boolean | EnabledValidations
+	passOnStoreError: boolean
+}
+
+
+/**
+ * The configuration options for the concurrency limiter.
+ */
+export type ConcurrencyOptions = {
+	limit: number | ValueDeterminingMiddleware<number>
+	leaseMs: number
+	message: any | ValueDeterminingMiddleware<any>
+	statusCode: number
+	requestPropertyName: string
+	keyGenerator: ValueDeterminingMiddleware<string>
+	handler: ConcurrencyLimitExceededEventHandler
+	skip: ValueDeterminingMiddleware<boolean>
+	store: ConcurrencyStore
+	validate: boolean | EnabledValidations
+	passOnStoreError: boolean
+}
+
+
 /**
  * The configuration options for the rate limiter.
  */
@@ -339,9 +596,39 @@ export type AugmentedRequest = Request & {
 }
 
 
+/**
+ * The state of a client's queue, as seen by a request when it joined it. Set
+ * on the request by the `LeakyBucket` middleware when `queueByKey` is enabled.
+ */
+export type LeakyBucketQueueInfo = {
+	key: string
+	queueDepth: number
+	queuedCost: number
+	waitedMs: number
+}
+
 export type RateLimitInfo = {
 	limit: number
 	used: number
 	remaining: number
 	resetTime: Date | undefined
+}
+
+/**
+ * The rate limit info set on the request by the hierarchical limiter. The top
+ * level fields describe the level that is currently the tightest, and `levels`
+ * describes each of them, in the order they were configured.
+ */
+export type HierarchicalRateLimitInfo = RateLimitInfo & {
+	level: string
+	levels: Array<RateLimitInfo & { name: string }>
+}
+
+/**
+ * The rate limit info set on the request by the multi-window limiter. The top
+ * level fields describe the window that is currently the tightest, and
+ * `windows` describes each of them, in the order they were configured.
+ */
+export type MultiWindowRateLimitInfo = RateLimitInfo & {
+	windows: Array<RateLimitInfo & { windowMs: number }>
 }
\ No newline at end of file
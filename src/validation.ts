@@ -302,7 +302,7 @@ const validations = {
 		if (!resetTime) {
 			throw new ValidationError(
 				'ERR_ERL_HEADERS_NO_RESET',
-				`standardHeaders:  'draft-7' requires a 'resetTime', but the store did not provide one. The 'windowMs' value will be used instead, which may cause clients to wait longer than necessary.`,
+				`standardHeaders:  'draft-7' and 'draft-8' require a 'resetTime', but the store did not provide one. The 'windowMs' value will be used instead, which may cause clients to wait longer than necessary.`,
 			)
 		}
 	},
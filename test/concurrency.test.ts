@@ -0,0 +1,98 @@
+import express from 'express';
+import request from 'supertest';
+import concurrencyLimit from '../src/concurrency/lib-concurrency';
+import MemoryConcurrencyStore from '../src/concurrency/memory-concurrency';
+import type { ConcurrencyStore } from '../src/types';
+import { silenceConsole } from './helpers';
+
+// Builds an app whose route only answers once `release` is called, so that
+// requests can be kept in flight.
+const createApp = (limiter: express.RequestHandler) => {
+    let release = () => {};
+    const gate = () => new Promise<void>((resolve) => (release = resolve));
+    let waiting = gate();
+
+    const app = express();
+    app.use(limiter);
+    app.get('/', async (_req, res) => {
+        await waiting;
+        res.sendStatus(200);
+    });
+
+    return {
+        app,
+        release: () => {
+            release();
+            waiting = gate();
+        },
+    };
+};
+
+// Waits until the store holds the given number of leases for a client.
+const waitForInFlight = async (store: MemoryConcurrencyStore, key: string, count: number) => {
+    while (((await store.get(key))?.totalHits ?? 0) !== count) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+};
+
+describe('concurrency limit', () => {
+    silenceConsole('error');
+
+    it('rejects requests over the limit until a slot is freed', async () => {
+        const store = new MemoryConcurrencyStore();
+        const limiter = concurrencyLimit({ limit: 2, store, keyGenerator: () => 'client' });
+        const { app, release } = createApp(limiter);
+
+        const held = [request(app).get('/').then((res) => res), request(app).get('/').then((res) => res)];
+        await waitForInFlight(store, 'client', 2);
+
+        expect((await request(app).get('/')).status).toBe(429);
+
+        release();
+        expect((await Promise.all(held)).map((res) => res.status)).toEqual([200, 200]);
+        await waitForInFlight(store, 'client', 0);
+
+        const next = request(app).get('/').then((res) => res);
+        await waitForInFlight(store, 'client', 1);
+        release();
+        expect((await next).status).toBe(200);
+
+        store.shutdown();
+    });
+
+    it('frees a slot once its lease has expired', async () => {
+        const store = new MemoryConcurrencyStore();
+        concurrencyLimit({ limit: 1, leaseMs: 20, store });
+
+        expect((await store.acquire('client', 'a', 1)).acquired).toBe(true);
+        expect((await store.acquire('client', 'b', 1)).acquired).toBe(false);
+
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        expect(await store.acquire('client', 'b', 1)).toEqual({ acquired: true, inFlight: 1 });
+
+        store.shutdown();
+    });
+
+    it('logs a store error when releasing a slot instead of crashing', async () => {
+        const store: ConcurrencyStore = {
+            acquire: async () => ({ acquired: true, inFlight: 1 }),
+            release: async () => {
+                throw new Error('store is down');
+            },
+            resetKey: async () => {},
+        };
+        const app = express();
+        app.use(concurrencyLimit({ store }));
+        app.get('/', (_req, res) => {
+            res.sendStatus(200);
+        });
+
+        expect((await request(app).get('/')).status).toBe(200);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(console.error).toHaveBeenCalledWith(
+            expect.stringContaining('could not release the concurrency slot'),
+            expect.objectContaining({ message: 'store is down' }),
+        );
+    });
+});
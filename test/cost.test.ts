@@ -0,0 +1,61 @@
+import request from 'supertest';
+import fixedWindow from '../src/fixed-window/lib-fixed-window';
+import tokenBucket from '../src/token-bucket/lib';
+import { checkCost } from '../src/parseConfig';
+import { createApp, silenceConsole } from './helpers';
+
+describe('request cost', () => {
+    silenceConsole('log', 'debug', 'error');
+
+    it.each([0, -1, NaN, Infinity, '2'])('refuses a cost of %p', (cost) => {
+        expect(() => checkCost(cost)).toThrow(TypeError);
+        expect(() => fixedWindow({ cost: cost as number })).toThrow(TypeError);
+        expect(() => tokenBucket({ cost: cost as number })).toThrow(TypeError);
+    });
+
+    it('rejects a request when the cost function returns an invalid cost', async () => {
+        const app = createApp(fixedWindow({ limit: 5, cost: () => 0 }));
+
+        const response = await request(app).get('/');
+        expect(response.status).toBe(500);
+        expect(response.text).toBe('TypeError');
+    });
+
+    it('charges the fixed window the cost of each request', async () => {
+        const app = createApp(fixedWindow({ limit: 5, cost: 2, standardHeaders: 'draft-7' }));
+
+        const first = await request(app).get('/');
+        expect(first.status).toBe(200);
+        expect(first.headers['ratelimit']).toMatch(/^limit=5, remaining=3, reset=\d+$/);
+
+        expect((await request(app).get('/')).status).toBe(200);
+        expect((await request(app).get('/')).status).toBe(429);
+    });
+
+    it('refunds the whole cost of a failed request', async () => {
+        const app = createApp(fixedWindow({ limit: 4, cost: 3, skipFailedRequests: true }), 500);
+
+        for (let i = 0; i < 3; i++) {
+            expect((await request(app).get('/')).status).toBe(500);
+        }
+    });
+
+    it('takes the cost of each request from the token bucket', async () => {
+        const app = createApp(tokenBucket({ maxTokens: 5, refillRate: 0.001, cost: (req) => Number(req.query.cost) }));
+
+        expect((await request(app).get('/?cost=4')).status).toBe(200);
+        expect((await request(app).get('/?cost=2')).status).toBe(429);
+        expect((await request(app).get('/?cost=1')).status).toBe(200);
+    });
+
+    it('lets a costly request through once enough tokens have been refilled', async () => {
+        // Ten tokens a second
+        const app = createApp(tokenBucket({ maxTokens: 5, refillRate: 10, cost: 5 }));
+
+        expect((await request(app).get('/')).status).toBe(200);
+        expect((await request(app).get('/')).status).toBe(429);
+
+        await new Promise((resolve) => setTimeout(resolve, 550));
+        expect((await request(app).get('/')).status).toBe(200);
+    });
+});
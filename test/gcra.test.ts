@@ -0,0 +1,75 @@
+import request from 'supertest';
+import gcra from '../src/gcra/lib-gcra';
+import MemoryGcraStore from '../src/gcra/memory-gcra';
+import { createApp, fakeDate, silenceConsole } from './helpers';
+
+const start = 1_700_000_000_000;
+
+describe('gcra', () => {
+    let store: MemoryGcraStore;
+
+    silenceConsole('log');
+    const at = fakeDate(start);
+
+    beforeEach(() => {
+        store = new MemoryGcraStore();
+    });
+
+    afterEach(() => {
+        store.shutdown();
+    });
+
+    const key = '::ffff:127.0.0.1';
+
+    it('lets a burst of up to the limit through, then one request every emission interval', async () => {
+        // One request every 250 ms
+        const app = createApp(gcra({ limit: 4, windowMs: 1000, store, standardHeaders: 'draft-6' }));
+
+        const burst = [];
+        for (let i = 0; i < 4; i++) burst.push((await request(app).get('/')).headers['ratelimit-remaining']);
+        expect(burst).toEqual(['3', '2', '1', '0']);
+        expect((await request(app).get('/')).status).toBe(429);
+
+        at(249);
+        expect((await request(app).get('/')).status).toBe(429);
+        at(250);
+        expect((await request(app).get('/')).status).toBe(200);
+        expect((await request(app).get('/')).status).toBe(429);
+    });
+
+    it('does not count rejected requests against the client', async () => {
+        const app = createApp(gcra({ limit: 2, windowMs: 1000, store }));
+
+        await request(app).get('/');
+        await request(app).get('/');
+        for (let i = 0; i < 5; i++) expect((await request(app).get('/')).status).toBe(429);
+
+        expect((await store.get(key))?.totalHits).toBe(2);
+        at(500);
+        expect((await request(app).get('/')).status).toBe(200);
+    });
+
+    it('sends the time until the next request fits in Retry-After', async () => {
+        const app = createApp(gcra({ limit: 2, windowMs: 4000, cost: 2, store, standardHeaders: 'draft-7' }));
+
+        expect((await request(app).get('/')).headers['ratelimit']).toBe('limit=2, remaining=0, reset=4');
+
+        // The next request costs two emission intervals
+        const rejected = await request(app).get('/');
+        expect(rejected.status).toBe(429);
+        expect(rejected.headers['retry-after']).toBe('4');
+    });
+
+    it('gives the time of failed requests back', async () => {
+        const app = createApp(gcra({ limit: 4, windowMs: 1000, store, skipFailedRequests: true }), 500);
+
+        expect((await request(app).get('/')).status).toBe(500);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(await store.get(key)).toBeUndefined();
+    });
+
+    it('requires a fixed limit', () => {
+        expect(() => gcra({ limit: () => 5, store })).toThrow(TypeError);
+    });
+});
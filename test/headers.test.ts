@@ -0,0 +1,60 @@
+import request from 'supertest';
+import fixedWindow from '../src/fixed-window/lib-fixed-window';
+import { createApp, silenceConsole } from './helpers';
+
+describe('standard headers', () => {
+    silenceConsole('log');
+
+    it('sets the draft-6 headers', async () => {
+        const app = createApp(fixedWindow({ limit: 3, windowMs: 60000, standardHeaders: 'draft-6' }));
+
+        const response = await request(app).get('/');
+        expect(response.headers['ratelimit-policy']).toBe('3;w=60');
+        expect(response.headers['ratelimit-limit']).toBe('3');
+        expect(response.headers['ratelimit-remaining']).toBe('2');
+        expect(Number(response.headers['ratelimit-reset'])).toBeLessThanOrEqual(60);
+    });
+
+    it('sets the draft-7 headers, and Retry-After once the limit is hit', async () => {
+        const app = createApp(fixedWindow({ limit: 1, windowMs: 60000, standardHeaders: 'draft-7' }));
+
+        expect((await request(app).get('/')).headers['ratelimit']).toMatch(/^limit=1, remaining=0, reset=60$/);
+
+        const rejected = await request(app).get('/');
+        expect(rejected.status).toBe(429);
+        expect(rejected.headers['retry-after']).toBe('60');
+    });
+
+    it('sets the draft-8 headers of every limiter under its own policy name', async () => {
+        const app = createApp([
+            fixedWindow({ limit: 10, windowMs: 1000, standardHeaders: 'draft-8', identifier: 'burst' }),
+            fixedWindow({ limit: 100, windowMs: 60000, standardHeaders: 'draft-8' }),
+        ]);
+
+        const response = await request(app).get('/');
+        const policies = response.headers['ratelimit-policy'].split(', ');
+
+        expect(policies).toEqual([
+            expect.stringMatching(/^"burst"; q=10; w=1; pk=:[A-Za-z0-9+/=]+:$/),
+            expect.stringMatching(/^"100-in-60sec"; q=100; w=60; pk=:[A-Za-z0-9+/=]+:$/),
+        ]);
+        expect(response.headers['ratelimit']).toBe('"burst"; r=9; t=1, "100-in-60sec"; r=99; t=60');
+        // The partition key is a hash, so the client's IP address is not sent back
+        expect(response.headers['ratelimit-policy']).not.toContain('127.0.0.1');
+    });
+
+    it('escapes quotes and backslashes in the policy name', async () => {
+        const app = createApp(fixedWindow({ limit: 5, standardHeaders: 'draft-8', identifier: 'say "hi" \\o/' }));
+
+        const response = await request(app).get('/');
+        expect(response.headers['ratelimit']).toMatch(/^"say \\"hi\\" \\\\o\/"; r=4; t=\d+$/);
+    });
+
+    it('refuses a policy name that cannot be sent in a header', async () => {
+        const app = createApp(fixedWindow({ limit: 5, standardHeaders: 'draft-8', identifier: 'caf\u00e9' }));
+
+        const response = await request(app).get('/');
+        expect(response.status).toBe(500);
+        expect(response.text).toBe('TypeError');
+    });
+});
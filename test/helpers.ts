@@ -0,0 +1,49 @@
+import express from 'express';
+
+// Builds an app with a single route behind the given limiters, with an error
+// handler that shows which errors reach it.
+export const createApp = (limiters: express.RequestHandler | express.RequestHandler[], status = 200) => {
+    const app = express();
+    app.use(limiters);
+    app.get('/', (_req, res) => {
+        res.sendStatus(status);
+    });
+    app.use((error: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+        res.status(500).send(error.name);
+    });
+    return app;
+};
+
+// Keeps the given console methods quiet for the tests of the enclosing `describe`
+export const silenceConsole = (...methods: Array<'log' | 'debug' | 'error'>) => {
+    beforeAll(() => {
+        for (const method of methods) {
+            jest.spyOn(console, method).mockImplementation(() => {});
+        }
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+};
+
+/**
+ * Sets the clock to `start` before each test of the enclosing `describe`. Only
+ * `Date` is faked, so that the server and supertest still run.
+ *
+ * @returns A function that moves the clock to `ms` after `start`.
+ */
+export const fakeDate = (start: number) => {
+    beforeEach(() => {
+        jest.useFakeTimers({
+            doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask', 'hrtime', 'performance'],
+        });
+        jest.setSystemTime(start);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    return (ms: number) => jest.setSystemTime(start + ms);
+};
@@ -0,0 +1,81 @@
+import express from 'express';
+import request from 'supertest';
+import hierarchical from '../src/hierarchical/lib-hierarchical';
+import MemoryFixedWindowStore from '../src/fixed-window/memory-fw';
+import MemoryGcraStore from '../src/gcra/memory-gcra';
+import type { HierarchicalOptions } from '../src/types';
+import { createApp, silenceConsole } from './helpers';
+
+// Every request names its user and organization in headers.
+const levels: HierarchicalOptions['levels'] = [
+    { name: 'user', keyGenerator: (req) => String(req.headers['x-user']), limit: 2 },
+    { name: 'org', keyGenerator: (req) => String(req.headers['x-org']), limit: 3 },
+];
+
+const hit = (app: express.Express, user: string, org = 'acme') =>
+    request(app).get('/').set('x-user', user).set('x-org', org);
+
+describe('hierarchical limit', () => {
+    let store: MemoryFixedWindowStore;
+
+    silenceConsole('log');
+
+    beforeEach(() => {
+        store = new MemoryFixedWindowStore();
+    });
+
+    afterEach(() => {
+        store.shutdown();
+    });
+
+    it('rejects a request once any level is exhausted', async () => {
+        const app = createApp(hierarchical({ levels, store, standardHeaders: 'draft-8' }));
+
+        expect((await hit(app, 'alice')).status).toBe(200);
+        expect((await hit(app, 'alice')).status).toBe(200);
+        expect((await hit(app, 'alice')).status).toBe(429);
+
+        expect((await hit(app, 'bob')).status).toBe(200);
+        const rejected = await hit(app, 'bob');
+        expect(rejected.status).toBe(429);
+        expect(rejected.headers['ratelimit']).toMatch(/^"user"; r=1; t=\d+, "org"; r=0; t=\d+$/);
+    });
+
+    it('charges nothing when a request is rejected', async () => {
+        const app = createApp(hierarchical({ levels, store }));
+
+        await hit(app, 'alice');
+        await hit(app, 'alice');
+        expect((await hit(app, 'alice')).status).toBe(429);
+        expect((await hit(app, 'alice')).status).toBe(429);
+
+        expect((await store.get('user:alice'))?.totalHits).toBe(2);
+        expect((await store.get('org:acme'))?.totalHits).toBe(2);
+        expect((await hit(app, 'bob')).status).toBe(200);
+    });
+
+    it('accepts exactly as many concurrent requests as the tightest level allows', async () => {
+        const app = createApp(hierarchical({ levels, store }));
+
+        const responses = await Promise.all(
+            ['alice', 'alice', 'alice', 'bob', 'bob', 'bob', 'carol', 'carol'].map((user) => hit(app, user)),
+        );
+
+        expect(responses.filter((res) => res.status === 200)).toHaveLength(3);
+        expect((await store.get('org:acme'))?.totalHits).toBe(3);
+    });
+
+    it('refunds every level when skipping failed requests', async () => {
+        const app = createApp(hierarchical({ levels, store, skipFailedRequests: true }), 500);
+
+        expect((await hit(app, 'alice')).status).toBe(500);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect((await store.get('user:alice'))?.totalHits).toBe(0);
+        expect((await store.get('org:acme'))?.totalHits).toBe(0);
+    });
+
+    it('refuses a store that cannot charge every level at once', () => {
+        expect(() => hierarchical({ levels, store: new MemoryGcraStore() })).toThrow(TypeError);
+    });
+});
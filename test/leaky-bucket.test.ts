@@ -0,0 +1,96 @@
+import express from 'express';
+import request from 'supertest';
+import LeakyBucket from '../src/leaky-bucket/lib-lb';
+import MemoryLeakyBucketStore from '../src/leaky-bucket/memory-lb';
+import type { LeakyBucketQueueInfo } from '../src/types';
+
+// Builds an app that reports the queue info put on the request, with an error
+// handler that shows which errors reach it.
+const createApp = (bucket: LeakyBucket) => {
+    const app = express();
+    app.use(bucket.rateLimitMiddleware);
+    app.get('/', (req, res) => {
+        res.json((req as express.Request & { rateLimit?: LeakyBucketQueueInfo }).rateLimit ?? {});
+    });
+    app.use((error: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+        res.status(500).json({ handled: error.message });
+    });
+    return app;
+};
+
+const byClientHeader = (req: express.Request) => String(req.headers['x-client']);
+
+describe('leaky bucket', () => {
+    const buckets: LeakyBucket[] = [];
+    const createBucket = (...args: ConstructorParameters<typeof LeakyBucket>) => {
+        const bucket = new LeakyBucket(...args);
+        buckets.push(bucket);
+        return bucket;
+    };
+
+    afterEach(() => {
+        buckets.splice(0).forEach((bucket) => bucket.end());
+    });
+
+    it('queues the requests of each client separately', async () => {
+        // Two requests fit, after that one leaks out every 100 ms
+        const app = createApp(
+            createBucket({ capacity: 2, interval: 200, queueByKey: true, keyGenerator: byClientHeader }),
+        );
+
+        const first = await Promise.all([1, 2, 3].map(() => request(app).get('/').set('x-client', 'a')));
+        const other = await request(app).get('/').set('x-client', 'b');
+
+        expect(first.map((res) => res.status)).toEqual([200, 200, 200]);
+        expect(first.map((res) => res.body.key)).toEqual(['a', 'a', 'a']);
+        expect(Math.max(...first.map((res) => res.body.waitedMs))).toBeGreaterThanOrEqual(50);
+        expect(other.body).toMatchObject({ key: 'b', queueDepth: 0, waitedMs: 0 });
+    });
+
+    it('rejects a request that waits longer than maxWait', async () => {
+        const app = createApp(
+            createBucket({ capacity: 1, interval: 60000, queueByKey: true, maxWait: 20, keyGenerator: byClientHeader }),
+        );
+
+        expect((await request(app).get('/').set('x-client', 'a')).status).toBe(200);
+
+        const rejected = await request(app).get('/').set('x-client', 'a');
+        expect(rejected.status).toBe(429);
+        expect(rejected.body).toEqual({ error: 'Queue wait exceeded.' });
+    });
+
+    it('shares the capacity kept in the store between instances', async () => {
+        const store = new MemoryLeakyBucketStore();
+        const options = { capacity: 2, interval: 60000, store, queueByKey: true, maxWait: 20, keyGenerator: byClientHeader };
+        const first = createApp(createBucket(options));
+        const second = createApp(createBucket(options));
+
+        expect((await request(first).get('/').set('x-client', 'a')).status).toBe(200);
+        expect((await request(first).get('/').set('x-client', 'a')).status).toBe(200);
+        expect((await request(second).get('/').set('x-client', 'a')).status).toBe(429);
+        expect((await request(second).get('/').set('x-client', 'b')).status).toBe(200);
+    });
+
+    it('sets the headers from the capacity kept in the store', async () => {
+        const store = new MemoryLeakyBucketStore();
+        const app = createApp(
+            createBucket({ capacity: 5, interval: 60000, store, queueByKey: true, standardHeaders: 'draft-7', keyGenerator: byClientHeader }),
+        );
+
+        await request(app).get('/').set('x-client', 'a');
+        const response = await request(app).get('/').set('x-client', 'a');
+        expect(response.headers['ratelimit']).toMatch(/^limit=5, remaining=3, reset=\d+$/);
+    });
+
+    it('passes store errors on instead of answering 429', async () => {
+        const store = new MemoryLeakyBucketStore();
+        store.increment = async () => {
+            throw new Error('store is down');
+        };
+        const app = createApp(createBucket({ capacity: 5, store, queueByKey: true, keyGenerator: byClientHeader }));
+
+        const response = await request(app).get('/').set('x-client', 'a');
+        expect(response.status).toBe(500);
+        expect(response.body).toEqual({ handled: 'store is down' });
+    });
+});
@@ -0,0 +1,76 @@
+import request from 'supertest';
+import multiWindow from '../src/multi-window/lib-multi-window';
+import MemoryMultiWindowStore from '../src/multi-window/memory-mw';
+import { createApp, fakeDate, silenceConsole } from './helpers';
+
+const start = 1_700_000_000_000;
+
+describe('multi-window', () => {
+    let store: MemoryMultiWindowStore;
+
+    // Two per second, and three per ten seconds
+    const windows = [
+        { windowMs: 1000, limit: 2 },
+        { windowMs: 10000, limit: 3, identifier: 'burst' },
+    ];
+
+    silenceConsole('log');
+    const at = fakeDate(start);
+
+    beforeEach(() => {
+        store = new MemoryMultiWindowStore();
+    });
+
+    afterEach(() => {
+        store.shutdown();
+    });
+
+    const key = '::ffff:127.0.0.1';
+
+    it('rejects a request that does not fit into every window, without counting it', async () => {
+        const app = createApp(multiWindow({ windows, store }));
+
+        expect((await request(app).get('/')).status).toBe(200);
+        expect((await request(app).get('/')).status).toBe(200);
+        expect((await request(app).get('/')).status).toBe(429);
+        expect((await store.get(key))?.map((window) => window.totalHits)).toEqual([2, 2]);
+
+        at(1000);
+        expect((await request(app).get('/')).status).toBe(200);
+        at(2000);
+        expect((await request(app).get('/')).status).toBe(429);
+        expect((await store.get(key))?.map((window) => window.totalHits)).toEqual([0, 3]);
+    });
+
+    it('points Retry-After at the exhausted window that frees up last', async () => {
+        const app = createApp(multiWindow({ windows, store, standardHeaders: 'draft-7' }));
+
+        await request(app).get('/');
+        await request(app).get('/');
+        at(1000);
+        await request(app).get('/');
+
+        at(2000);
+        const rejected = await request(app).get('/');
+        expect(rejected.status).toBe(429);
+        expect(rejected.headers['retry-after']).toBe('8');
+        expect(rejected.headers['ratelimit']).toBe('limit=3, remaining=0, reset=8');
+    });
+
+    it('sends a draft-8 policy for every window', async () => {
+        const app = createApp(multiWindow({ windows, store, standardHeaders: 'draft-8' }));
+
+        const response = await request(app).get('/');
+        expect(response.headers['ratelimit-policy']).toMatch(/^"2-in-1sec"; q=2; w=1; pk=:[^:]+:, "burst"; q=3; w=10; pk=:[^:]+:$/);
+        expect(response.headers['ratelimit']).toBe('"2-in-1sec"; r=1; t=1, "burst"; r=2; t=10');
+    });
+
+    it('refunds every window for failed requests', async () => {
+        const app = createApp(multiWindow({ windows, store, skipFailedRequests: true }), 500);
+
+        expect((await request(app).get('/')).status).toBe(500);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect((await store.get(key))?.map((window) => window.totalHits)).toEqual([0, 0]);
+    });
+});
@@ -0,0 +1,97 @@
+import request from 'supertest';
+import ZShield, { detectMaliciousRequest } from '../../src/shield/lib';
+import ShieldMemoryStore from '../../src/shield/memory/inMemoryStore';
+import { silenceConsole } from '../helpers';
+import { allOff, createApp, createRequest } from './helpers';
+
+describe('shield anomaly scoring', () => {
+    silenceConsole('log');
+
+    it('weighs harmless markup below a real attack', () => {
+        const markup = detectMaliciousRequest(createRequest({ body: { comment: '<b>hi</b>' } }), {
+            ...allOff,
+            xss: true,
+        });
+        const attack = detectMaliciousRequest(
+            createRequest({ query: { id: "1' UNION SELECT password FROM users" } }),
+            { ...allOff, sqlInjection: true },
+        );
+
+        expect(markup.anomalyScore).toBe(2);
+        expect(markup.matchedRules.map((rule) => rule.id)).toEqual(['xss-180']);
+        expect(attack.anomalyScore).toBeGreaterThanOrEqual(5);
+        expect(attack.matchedRules.map((rule) => rule.id)).toContain('sqli-130');
+    });
+
+    it('sums the weights of every rule that matched, once each', () => {
+        const req = createRequest({
+            query: { a: '<script>alert(1)</script>', b: '<script>alert(2)</script>' },
+        });
+        const { anomalyScore, matchedRules } = detectMaliciousRequest(req, { ...allOff, xss: true });
+
+        expect(matchedRules.map((rule) => rule.id)).toEqual(['xss-100', 'xss-130', 'xss-180']);
+        expect(anomalyScore).toBe(5 + 4 + 2);
+    });
+
+    it('only uses the rules at or below the paranoia level', () => {
+        const req = createRequest({ query: { next: 'http://example.com/login?' } });
+
+        expect(
+            detectMaliciousRequest(req, { ...allOff, rfi: true }).isSuspicious,
+        ).toBe(false);
+        expect(
+            detectMaliciousRequest(req, { ...allOff, rfi: true, paranoiaLevel: 2 })
+                .matchedRules.map((rule) => rule.id),
+        ).toEqual(['rfi-110']);
+    });
+
+    it('scores common SQL fragments low enough to let a single one through', () => {
+        const req = createRequest({ body: { filter: 'page 2=2 -- newest first' } });
+        const { anomalyScore, matchedRules } = detectMaliciousRequest(req, { ...allOff, sqlInjection: true });
+
+        expect(matchedRules.map((rule) => rule.id)).toEqual(['sqli-170', 'sqli-190']);
+        expect(anomalyScore).toBe(2 + 2);
+    });
+
+    it('leaves out disabled rules', () => {
+        const req = createRequest({ body: { comment: '<b>hi</b>' } });
+
+        expect(
+            detectMaliciousRequest(req, { ...allOff, xss: true, disabledRules: ['xss-180'] }),
+        ).toMatchObject({ isSuspicious: false, anomalyScore: 0 });
+    });
+
+    describe('in the middleware', () => {
+        const attack = { q: "' UNION SELECT password FROM users" };
+
+        it('counts suspicious requests by default, blocking the client at the fifth', async () => {
+            const app = createApp(new ZShield());
+
+            for (let clientScore = 1; clientScore < 5; clientScore++) {
+                const response = await request(app).get('/').query(attack);
+                expect(response.status).toBe(200);
+                expect(response.body).toMatchObject({ blocked: false, clientScore });
+            }
+            expect((await request(app).get('/').query(attack)).status).toBe(403);
+        });
+
+        it('blocks a request on its own score, and adds that score to the client\'s, with anomaly scoring', async () => {
+            const store = new ShieldMemoryStore();
+            const app = createApp(new ZShield({ scoring: 'anomaly', store }));
+
+            expect((await request(app).get('/').query(attack)).status).toBe(403);
+            expect((await store.get('::ffff:127.0.0.1'))?.score).toBe(7);
+        });
+
+        it('only reports matches scoring below anomalyThreshold, without counting them against the client', async () => {
+            const app = createApp(new ZShield({ suspicionThreshold: 2 }));
+
+            for (let i = 0; i < 3; i++) {
+                const response = await request(app).get('/').query({ q: 'page 2=2' });
+                expect(response.status).toBe(200);
+                expect(response.body).toMatchObject({ blocked: false, attackTypes: ['SQL Injection'], anomalyScore: 2 });
+                expect(response.body.clientScore).toBeUndefined();
+            }
+        });
+    });
+});
@@ -0,0 +1,103 @@
+import request from 'supertest';
+import ZShield from '../../src/shield/lib';
+import ShieldMemoryStore from '../../src/shield/memory/inMemoryStore';
+import { silenceConsole } from '../helpers';
+import { createApp, createShield } from './helpers';
+
+describe('shield blocking by hand', () => {
+    silenceConsole('log');
+
+    // Takes the client's IP address from X-Forwarded-For, so tests can pick it
+    const createProxiedApp = (shield: ZShield) => createApp(shield).set('trust proxy', true);
+
+    it('blocks, lists and unblocks clients', async () => {
+        const shield = createShield();
+        const app = createProxiedApp(shield);
+
+        await shield.block('198.51.100.7');
+        await shield.block('198.51.100.8', 3600000);
+
+        expect((await request(app).get('/').set('x-forwarded-for', '198.51.100.7')).status).toBe(403);
+        expect((await request(app).get('/').set('x-forwarded-for', '198.51.100.9')).status).toBe(200);
+        expect(await shield.listBlocked()).toEqual([
+            { key: '198.51.100.7', score: 0, expiry: expect.any(Number) },
+            { key: '198.51.100.8', score: 0, expiry: expect.any(Number) },
+        ]);
+
+        await shield.unblock('198.51.100.7');
+        expect((await request(app).get('/').set('x-forwarded-for', '198.51.100.7')).status).toBe(200);
+
+        await shield.clear();
+        expect(await shield.listBlocked()).toEqual([]);
+        expect((await request(app).get('/').set('x-forwarded-for', '198.51.100.8')).status).toBe(200);
+    });
+
+    it('keeps a block set by hand when the client is scored again', async () => {
+        const shield = createShield({ mode: 'report' });
+        const app = createProxiedApp(shield);
+
+        await shield.block('198.51.100.7', 3600000);
+        const response = await request(app)
+            .get('/')
+            .query({ q: "' UNION SELECT 1" })
+            .set('x-forwarded-for', '198.51.100.7');
+        expect(response.status).toBe(200);
+
+        const [blocked] = await shield.listBlocked();
+        expect(blocked).toMatchObject({ key: '198.51.100.7', score: 5 });
+        expect(blocked.expiry).toBeGreaterThan(Date.now() + 3000000);
+    });
+
+    it('still works with a store that cannot block by hand', async () => {
+        const inner = new ShieldMemoryStore();
+        const store = {
+            set: inner.set.bind(inner),
+            get: inner.get.bind(inner),
+            increment: inner.increment.bind(inner),
+            delete: inner.delete.bind(inner),
+            flushExpired: inner.flushExpired.bind(inner),
+            isBlocked: inner.isBlocked.bind(inner),
+        };
+        const shield = createShield({ store });
+
+        const response = await request(createApp(shield)).get('/').query({ q: "' UNION SELECT 1" });
+        expect(response.status).toBe(403);
+        await expect(shield.block('198.51.100.7')).rejects.toThrow('The current store does not support block()');
+        await expect(shield.listBlocked()).rejects.toThrow('The current store does not support listBlocked()');
+    });
+});
+
+describe('shield memory store', () => {
+    it('blocks, lists and unblocks clients by hand', async () => {
+        const store = new ShieldMemoryStore();
+        await store.increment('1.1.1.1', 60000, 3);
+        await store.block('1.1.1.1', 60000);
+        await store.block('2.2.2.2', 60000);
+
+        expect(await store.isBlocked('1.1.1.1')).toBe(true);
+        expect((await store.listBlocked()).map(({ key, score }) => ({ key, score }))).toEqual([
+            { key: '1.1.1.1', score: 3 },
+            { key: '2.2.2.2', score: 0 },
+        ]);
+
+        await store.unblock('1.1.1.1');
+        expect(await store.isBlocked('1.1.1.1')).toBe(false);
+        expect(await store.get('1.1.1.1')).toBeUndefined();
+
+        await store.clear();
+        expect(await store.listBlocked()).toEqual([]);
+    });
+
+    it('blocks clients at the threshold of the middleware it is used by', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        const store = new ShieldMemoryStore(5);
+        createShield({ store, suspicionThreshold: 10 });
+        jest.restoreAllMocks();
+
+        await store.increment('1.1.1.1', 60000, 6);
+        expect(await store.isBlocked('1.1.1.1')).toBe(false);
+
+        await store.increment('1.1.1.1', 60000, 4);
+        expect(await store.isBlocked('1.1.1.1')).toBe(true);
+    });
+});
@@ -0,0 +1,103 @@
+import express from 'express';
+import request from 'supertest';
+import { detectMaliciousRequest } from '../../src/shield/lib';
+import { silenceConsole } from '../helpers';
+import { allOff, createApp, createRequest, createShield } from './helpers';
+
+describe('shield detectors', () => {
+    silenceConsole('log');
+
+    describe('csrf', () => {
+        const crossSite = [
+            createRequest({
+                method: 'POST',
+                headers: { host: 'app.example.com', origin: 'https://evil.example' },
+            }),
+            createRequest({
+                method: 'DELETE',
+                headers: { host: 'app.example.com', referer: 'https://evil.example/page' },
+            }),
+            createRequest({
+                method: 'PUT',
+                headers: { host: 'app.example.com', 'sec-fetch-site': 'cross-site' },
+            }),
+            createRequest({
+                method: 'POST',
+                headers: { host: 'app.example.com', origin: 'null' },
+            }),
+        ];
+
+        it.each(crossSite)('detects cross-site requests when enabled (case %#)', (req) => {
+            const { isSuspicious, attackTypes } = detectMaliciousRequest(req, {
+                ...allOff,
+                csrf: true,
+            });
+
+            expect(isSuspicious).toBe(true);
+            expect(attackTypes).toEqual(['CSRF']);
+        });
+
+        it('blocks cross-site writes in the middleware, but not reads or trusted origins', async () => {
+            const app = createApp(createShield({ csrf: true }));
+            const trusting = createApp(createShield({ csrf: true, trustedOrigins: ['https://evil.example'] }));
+
+            const response = await request(app).post('/').set('origin', 'https://evil.example').send({ amount: 10 });
+            expect(response.status).toBe(403);
+            expect(response.body.detectedAttacks).toEqual(['CSRF']);
+            expect((await request(app).get('/').set('origin', 'https://evil.example')).status).toBe(200);
+            expect((await request(trusting).post('/').set('origin', 'https://evil.example').send({})).status).toBe(200);
+        });
+
+        it('is off unless turned on', async () => {
+            const app = createApp(createShield());
+
+            expect((await request(app).post('/').set('origin', 'https://evil.example').send({})).status).toBe(200);
+        });
+
+        it('compares the origin with the forwarded host behind a trusted proxy', async () => {
+            const app = createApp(createShield({ csrf: true }));
+            const send = (app: express.Express) =>
+                request(app)
+                    .post('/')
+                    .set('origin', 'https://app.example.com')
+                    .set('x-forwarded-host', 'app.example.com')
+                    .send({});
+
+            expect((await send(app)).status).toBe(403);
+            expect((await send(app.set('trust proxy', true))).status).toBe(200);
+        });
+
+        it('lets same-origin, safe and header-less requests through', () => {
+            const requests = [
+                createRequest({
+                    method: 'POST',
+                    headers: { host: 'app.example.com', origin: 'https://app.example.com' },
+                }),
+                createRequest({
+                    method: 'GET',
+                    headers: { host: 'app.example.com', origin: 'https://evil.example' },
+                }),
+                createRequest({ method: 'POST' }),
+            ];
+
+            for (const req of requests) {
+                expect(detectMaliciousRequest(req, { ...allOff, csrf: true }).isSuspicious).toBe(false);
+            }
+        });
+
+        it('lets trusted origins through', () => {
+            const req = createRequest({
+                method: 'POST',
+                headers: { host: 'api.example.com', origin: 'https://app.example.com' },
+            });
+
+            expect(
+                detectMaliciousRequest(req, {
+                    ...allOff,
+                    csrf: true,
+                    trustedOrigins: ['https://app.example.com'],
+                }).isSuspicious,
+            ).toBe(false);
+        });
+    });
+});
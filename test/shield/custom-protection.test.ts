@@ -0,0 +1,76 @@
+import request from 'supertest';
+import { detectMaliciousRequest, inspectRequest } from '../../src/shield/lib';
+import { silenceConsole } from '../helpers';
+import { allOff, createApp, createRequest, createShield } from './helpers';
+
+describe('shield custom protection', () => {
+    silenceConsole('log');
+
+    it('reports the field each rule matched in', () => {
+        const req = createRequest({
+            body: { user: { name: '<script>alert(1)</script>' } },
+            headers: { host: 'app.example.com', 'user-agent': "() { :; }; /bin/bash -c 'id'" },
+        });
+        const { matchedRules } = detectMaliciousRequest(req, { ...allOff, xss: true, shellInjection: true });
+
+        expect(matchedRules).toContainEqual(expect.objectContaining({ id: 'xss-100', field: 'body.user.name' }));
+        expect(matchedRules).toContainEqual(
+            expect.objectContaining({ id: 'shell-160', field: 'headers.user-agent' }),
+        );
+    });
+
+    it('adds the findings of sync and async detectors to the built-in ones', async () => {
+        const req = createRequest({ query: { q: '<b>hi</b>', coupon: 'FREE-FOREVER' } });
+        const result = await inspectRequest(req as any, {
+            ...allOff,
+            xss: true,
+            customProtection: [
+                (request) =>
+                    request.query.coupon === 'FREE-FOREVER'
+                        ? { attackType: 'Coupon Abuse', ruleId: 'coupon-100', field: 'query.coupon' }
+                        : undefined,
+                async () => [{ attackType: 'Bot', ruleId: 'bot-100', weight: 2 }],
+            ],
+        });
+
+        expect(result.attackTypes).toEqual(['XSS', 'Coupon Abuse', 'Bot']);
+        expect(result.anomalyScore).toBe(2 + 5 + 2);
+        expect(result.matchedRules).toContainEqual({
+            id: 'coupon-100',
+            attackType: 'Coupon Abuse',
+            weight: 5,
+            field: 'query.coupon',
+        });
+    });
+
+    it('leaves out disabled custom rules', async () => {
+        const result = await inspectRequest(createRequest() as any, {
+            ...allOff,
+            customProtection: () => ({ attackType: 'Bot', ruleId: 'bot-100' }),
+            disabledRules: ['bot-100'],
+        });
+
+        expect(result.isSuspicious).toBe(false);
+    });
+
+    it('logs detectors that throw and carries on with the others, in the middleware too', async () => {
+        const logFunction = jest.fn();
+        const app = createApp(
+            createShield({
+                logFunction,
+                customProtection: [
+                    () => {
+                        throw new Error('Broken plugin');
+                    },
+                    async () => Promise.reject(new Error('Lost connection')),
+                    (request) => (request.query.coupon ? { attackType: 'Coupon Abuse' } : undefined),
+                ],
+            }),
+        );
+
+        expect((await request(app).get('/')).status).toBe(200);
+        expect((await request(app).get('/').query({ coupon: 'FREE-FOREVER' })).status).toBe(403);
+        expect(logFunction).toHaveBeenCalledWith('Error in customProtection[0]: Broken plugin');
+        expect(logFunction).toHaveBeenCalledWith('Error in customProtection[1]: Lost connection');
+    });
+});
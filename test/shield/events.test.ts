@@ -0,0 +1,57 @@
+import request from 'supertest';
+import { silenceConsole } from '../helpers';
+import { createApp, createShield } from './helpers';
+
+describe('shield events', () => {
+    silenceConsole('log');
+
+    const attack = { q: "' UNION SELECT password FROM users" };
+
+    it('calls onDetection and onBlock with what was found', async () => {
+        const onDetection = jest.fn();
+        const onBlock = jest.fn();
+        const app = createApp(createShield({ onDetection, onBlock }));
+
+        expect((await request(app).get('/').query(attack)).status).toBe(403);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        const event = {
+            blocked: true,
+            reason: 'anomalyThreshold',
+            attackTypes: ['SQL Injection'],
+            matchedRules: expect.arrayContaining([
+                { id: 'sqli-130', attackType: 'SQL Injection', weight: 5, field: 'query.q' },
+            ]),
+            key: expect.any(String),
+        };
+        expect(onDetection).toHaveBeenCalledWith(expect.objectContaining(event));
+        expect(onBlock).toHaveBeenCalledWith(expect.objectContaining(event));
+    });
+
+    it('logs errors thrown by hooks instead of failing the request', async () => {
+        const logFunction = jest.fn();
+        const app = createApp(
+            createShield({
+                logFunction,
+                onDetection: () => {
+                    throw new Error('metrics are down');
+                },
+                onBlock: async () => {
+                    throw new Error('logger is down');
+                },
+            }),
+        );
+
+        expect((await request(app).get('/').query(attack)).status).toBe(403);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(logFunction).toHaveBeenCalledWith('Error in onDetection: metrics are down');
+        expect(logFunction).toHaveBeenCalledWith('Error in onBlock: logger is down');
+    });
+
+    it('does not wait for slow hooks', async () => {
+        const app = createApp(createShield({ onBlock: () => new Promise(() => {}) }));
+
+        expect((await request(app).get('/').query(attack)).status).toBe(403);
+    });
+});
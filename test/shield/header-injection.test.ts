@@ -0,0 +1,50 @@
+import request from 'supertest';
+import { detectMaliciousRequest } from '../../src/shield/lib';
+import { silenceConsole } from '../helpers';
+import { allOff, createApp, createRequest, createShield } from './helpers';
+
+describe('shield detectors', () => {
+    silenceConsole('log');
+
+    describe('headerInjection', () => {
+        const requests: Array<[string, Record<string, any>]> = [
+            ['encoded Set-Cookie', { originalUrl: '/?next=/home%0d%0aSet-Cookie:%20session=evil' }],
+            ['decoded Location', { query: { next: '/home\r\nLocation: https://evil.example' } }],
+            ['response splitting', { query: { lang: 'en\r\nContent-Length: 0\r\n\r\nHTTP/1.1 200 OK' } }],
+            ['injected body', { params: { id: '1%0d%0a%0d%0a<html><script>x</script>' } }],
+            ['unicode line breaks', { originalUrl: '/?q=x%E5%98%8A%E5%98%8DSet-Cookie:a=b' }],
+            ['line break in a cookie', { headers: { host: 'app.example.com', cookie: 'lang=en%0d%0aSet-Cookie: admin=1' } }],
+        ];
+
+        it.each(requests)('detects %s when enabled', (_name, overrides) => {
+            const { isSuspicious, attackTypes } = detectMaliciousRequest(createRequest(overrides), {
+                ...allOff,
+                headerInjection: true,
+            });
+
+            expect(isSuspicious).toBe(true);
+            expect(attackTypes).toEqual(['Header Injection']);
+        });
+
+        it('blocks encoded line breaks in the query string, unless turned off', async () => {
+            const url = '/?next=/home%0d%0aSet-Cookie:%20session=evil';
+
+            const response = await request(createApp(createShield())).get(url);
+            expect(response.status).toBe(403);
+            expect(response.body.detectedAttacks).toEqual(['Header Injection']);
+            expect((await request(createApp(createShield({ headerInjection: false }))).get(url)).status).toBe(200);
+        });
+
+        it('lets line breaks in bodies and ordinary values through', () => {
+            const req = createRequest({
+                originalUrl: '/?next=/home&lang=en',
+                query: { next: '/home', lang: 'en' },
+                body: { message: 'Hi,\nLocation: the usual place\nThanks' },
+            });
+
+            expect(
+                detectMaliciousRequest(req, { ...allOff, headerInjection: true }).isSuspicious,
+            ).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import express from 'express';
+import ZShield, { ShieldAugmentedRequest } from '../../src/shield/lib';
+
+// Builds a bare-bones request, like the ones Express hands to the middleware.
+export const createRequest = (overrides: Record<string, any> = {}) => ({
+    method: 'GET',
+    path: '/',
+    originalUrl: '/',
+    query: {},
+    body: {},
+    params: {},
+    headers: { host: 'app.example.com' },
+    ...overrides,
+});
+
+// Builds an app behind the given Shield that sends back what Shield set on the
+// request, with an error handler that shows which errors reach it.
+export const createApp = (shield: ZShield) => {
+    const app = express();
+    app.use(express.json());
+    app.use(shield.middleware);
+    app.all('/', (req, res) => {
+        res.json((req as ShieldAugmentedRequest).shield ?? {});
+    });
+    app.use((error: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+        res.status(500).json({ handled: error.message });
+    });
+    return app;
+};
+
+// Shield as most tests want it, blocking an attack on the spot rather than once
+// the client has sent five
+export const createShield = (options: ConstructorParameters<typeof ZShield>[0] = {}) =>
+    new ZShield({ scoring: 'anomaly', ...options });
+
+export const allOff = {
+    xss: false,
+    sqlInjection: false,
+    lfi: false,
+    rfi: false,
+    shellInjection: false,
+    nosqlInjection: false,
+    ssrf: false,
+    prototypePollution: false,
+    headerInjection: false,
+    ssti: false,
+    xxe: false,
+    csrf: false,
+};
@@ -0,0 +1,49 @@
+import { detectMaliciousRequest } from '../../src/shield/lib';
+import { silenceConsole } from '../helpers';
+import { allOff, createRequest } from './helpers';
+
+describe('shield input normalization', () => {
+    silenceConsole('log');
+
+    const encoded: Array<[string, string, string]> = [
+        ['url encoding', '%3Cscript%3Ealert(1)%3C%2Fscript%3E', 'XSS'],
+        ['double url encoding', '%253Cscript%253Ealert(1)%253C%252Fscript%253E', 'XSS'],
+        ['html entities', '&lt;img src=x onerror=alert(1)&gt;', 'XSS'],
+        ['numeric html entities', '&#x6a;avascript&#58;alert(1)', 'XSS'],
+        ['unicode escapes', '\\u003cscript\\u003ealert(1)\\u003c/script\\u003e', 'XSS'],
+        ['inline comments', "1'/**/UNION/**/SELECT/**/password", 'SQL Injection'],
+        ['null bytes', '../\0../etc/passwd', 'LFI'],
+    ];
+
+    it.each(encoded)('sees through %s', (_name, value, attackType) => {
+        const req = createRequest({ query: { q: value } });
+        const { attackTypes } = detectMaliciousRequest(req, {
+            ...allOff,
+            xss: true,
+            sqlInjection: true,
+            lfi: true,
+        });
+
+        expect(attackTypes).toContain(attackType);
+    });
+
+    it('only decodes base64 when asked to, as tokens often decode to something that looks like an attack', () => {
+        const req = createRequest({ body: { token: 'YWxlcnQoMSk8c2NyaXB0Pg==' } });
+
+        expect(detectMaliciousRequest(req, { ...allOff, xss: true }).isSuspicious).toBe(false);
+        expect(
+            detectMaliciousRequest(req, { ...allOff, xss: true, decoders: ['base64'] }).attackTypes,
+        ).toEqual(['XSS']);
+    });
+
+    it('only applies the configured decoders', () => {
+        const req = createRequest({ query: { q: '%3Cb%3Ehi%3C%2Fb%3E' } });
+
+        expect(
+            detectMaliciousRequest(req, { ...allOff, xss: true, decoders: [] }).isSuspicious,
+        ).toBe(false);
+        expect(
+            detectMaliciousRequest(req, { ...allOff, xss: true, decoders: ['url'] }).isSuspicious,
+        ).toBe(true);
+    });
+});
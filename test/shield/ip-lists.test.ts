@@ -0,0 +1,86 @@
+import request from 'supertest';
+import { isInRanges, parseCidr } from '../../src/shield/ip-lists';
+import ShieldMemoryStore from '../../src/shield/memory/inMemoryStore';
+import { silenceConsole } from '../helpers';
+import { createApp, createShield } from './helpers';
+
+describe('shield ip lists', () => {
+    const ranges = ['10.0.0.0/8', '192.168.1.7', '2001:db8::/32', '::1'].map((cidr) => parseCidr(cidr)!);
+
+    const inside: string[] = ['10.1.2.3', '192.168.1.7', '::ffff:10.0.0.1', '2001:db8:1::5', '::1', '0:0:0:0:0:0:0:1'];
+    const outside: string[] = ['11.0.0.1', '192.168.1.8', '2001:db9::1', '::2', 'not-an-ip'];
+
+    it.each(inside)('matches %s', (ip) => {
+        expect(isInRanges(ip, ranges)).toBe(true);
+    });
+
+    it.each(outside)('does not match %s', (ip) => {
+        expect(isInRanges(ip, ranges)).toBe(false);
+    });
+
+    it('treats IPv4-mapped ranges as IPv4', () => {
+        expect(isInRanges('172.16.5.4', [parseCidr('::ffff:172.16.0.0/108')!])).toBe(true);
+    });
+
+    it('rejects invalid ranges', () => {
+        for (const cidr of ['10.0.0.0/33', '256.0.0.1', '10.0.0.0/', '1::2::3', '::/129', '10.0.0.0/8/8']) {
+            expect(parseCidr(cidr)).toBeUndefined();
+        }
+    });
+
+    describe('in the middleware', () => {
+        // A memory store that keeps IP lists too, like the Redis and Postgres ones
+        class IpListStore extends ShieldMemoryStore {
+            lists = { allow: new Set<string>(), deny: new Set<string>() };
+
+            async getIpList(list: 'allow' | 'deny'): Promise<string[]> {
+                return [...this.lists[list]];
+            }
+
+            async addToIpList(list: 'allow' | 'deny', cidr: string): Promise<void> {
+                this.lists[list].add(cidr);
+            }
+
+            async removeFromIpList(list: 'allow' | 'deny', cidr: string): Promise<void> {
+                this.lists[list].delete(cidr);
+            }
+        }
+
+        silenceConsole('log');
+
+        it('lets allowed ranges through without scanning them', async () => {
+            const app = createApp(createShield({ allowList: ['127.0.0.0/8'] }));
+
+            expect((await request(app).get('/').query({ q: '<script>alert(1)</script>' })).status).toBe(200);
+        });
+
+        it('blocks denied ranges, whatever their score', async () => {
+            const app = createApp(createShield({ denyList: ['127.0.0.0/8'] }));
+
+            const response = await request(app).get('/');
+            expect(response.status).toBe(403);
+            expect(response.body).toEqual({ error: 'Access denied due to suspicious activity.' });
+        });
+
+        it('shares the lists kept in the store between instances', async () => {
+            const store = new IpListStore();
+            const first = createApp(createShield({ store, persistIpLists: true, denyList: ['127.0.0.0/8'] }));
+            const second = createApp(createShield({ store, persistIpLists: true }));
+
+            expect((await request(first).get('/')).status).toBe(403);
+            expect((await request(second).get('/')).status).toBe(403);
+        });
+
+        it('saves the lists to the store again after it failed', async () => {
+            const store = new IpListStore();
+            const addToIpList = jest
+                .spyOn(store, 'addToIpList')
+                .mockRejectedValueOnce(new Error('store is down'));
+            const app = createApp(createShield({ store, persistIpLists: true, denyList: ['127.0.0.0/8'] }));
+
+            expect((await request(app).get('/')).body).toEqual({ handled: 'store is down' });
+            expect((await request(app).get('/')).status).toBe(403);
+            expect(addToIpList).toHaveBeenCalledTimes(2);
+        });
+    });
+});
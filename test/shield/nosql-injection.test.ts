@@ -0,0 +1,65 @@
+import request from 'supertest';
+import { detectMaliciousRequest } from '../../src/shield/lib';
+import { silenceConsole } from '../helpers';
+import { allOff, createApp, createRequest, createShield } from './helpers';
+
+describe('shield detectors', () => {
+    silenceConsole('log');
+
+    describe('nosqlInjection', () => {
+        const requests = [
+            createRequest({ body: { user: 'admin', password: { $ne: null } } }),
+            createRequest({ body: { $where: 'this.isAdmin == true' } }),
+            createRequest({ query: { user: { $regex: '^adm' } } }),
+            createRequest({ body: { filter: { $expr: { $gt: ['$balance', 0] } } } }),
+            createRequest({ originalUrl: '/login?user=admin&password[$ne]=x' }),
+            createRequest({ query: { filter: '{"role": {"$gt": ""}}' } }),
+            createRequest({ body: { name: "x'; return true; var y='" } }),
+            createRequest({ body: { name: "' || '1'=='1" } }),
+        ];
+
+        it.each(requests)('detects operator and JavaScript injection when enabled (case %#)', (req) => {
+            const { isSuspicious, attackTypes } = detectMaliciousRequest(req, {
+                ...allOff,
+                nosqlInjection: true,
+            });
+
+            expect(isSuspicious).toBe(true);
+            expect(attackTypes).toEqual(['NoSQL Injection']);
+        });
+
+        it('blocks operators in JSON bodies and query strings, unless turned off', async () => {
+            const app = createApp(createShield());
+            const body = { user: 'admin', password: { $ne: null } };
+
+            const response = await request(app).post('/').send(body);
+            expect(response.status).toBe(403);
+            expect(response.body.detectedAttacks).toEqual(['NoSQL Injection']);
+            expect((await request(app).get('/?user=admin&password[$ne]=x')).status).toBe(403);
+            expect((await request(createApp(createShield({ nosqlInjection: false }))).post('/').send(body)).status).toBe(
+                200,
+            );
+        });
+
+        it('reports the key the operator was sent in', () => {
+            const req = createRequest({ body: { password: { $ne: null } } });
+            const { matchedRules } = detectMaliciousRequest(req, { ...allOff, nosqlInjection: true });
+
+            expect(matchedRules).toEqual([
+                { id: 'nosql-110', attackType: 'NoSQL Injection', weight: 5, field: 'body.password.$ne' },
+            ]);
+        });
+
+        it('lets ordinary keys and prices through', () => {
+            const req = createRequest({
+                originalUrl: '/?tags[0]=a&tags[1]=b',
+                query: { tags: ['a', 'b'] },
+                body: { price: '$5', currency: 'USD', note: 'this.value is fine', profile: { $schema: 'v1' } },
+            });
+
+            expect(
+                detectMaliciousRequest(req, { ...allOff, nosqlInjection: true }).isSuspicious,
+            ).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,95 @@
+import express from 'express';
+import request from 'supertest';
+import ZShield, { ShieldAugmentedRequest, detectMaliciousRequest } from '../../src/shield/lib';
+import { stripPrototypePollution } from '../../src/shield/prototype-pollution';
+import { silenceConsole } from '../helpers';
+import { allOff, createApp, createRequest, createShield } from './helpers';
+
+describe('shield detectors', () => {
+    silenceConsole('log');
+
+    describe('prototypePollution', () => {
+        const requests = [
+            createRequest({ body: JSON.parse('{"__proto__": {"isAdmin": true}}') }),
+            createRequest({ body: JSON.parse('{"user": {"__proto__": {"isAdmin": true}}}') }),
+            createRequest({ body: { constructor: { prototype: { isAdmin: true } } } }),
+            createRequest({ originalUrl: '/?constructor[prototype][isAdmin]=1' }),
+            createRequest({ originalUrl: '/?__proto__[isAdmin]=1' }),
+            createRequest({ query: { settings: '{"__proto__": {"isAdmin": true}}' } }),
+        ];
+
+        it.each(requests)('detects polluting keys when enabled (case %#)', (req) => {
+            const { isSuspicious, attackTypes } = detectMaliciousRequest(req, {
+                ...allOff,
+                prototypePollution: true,
+            });
+
+            expect(isSuspicious).toBe(true);
+            expect(attackTypes).toEqual(['Prototype Pollution']);
+        });
+
+        it('blocks polluting keys in a JSON body, unless turned off', async () => {
+            const body = '{"user": {"__proto__": {"isAdmin": true}}}';
+            const send = (shield: ZShield) =>
+                request(createApp(shield)).post('/').set('content-type', 'application/json').send(body);
+
+            const response = await send(createShield());
+            expect(response.status).toBe(403);
+            expect(response.body.detectedAttacks).toEqual(['Prototype Pollution']);
+            expect((await send(createShield({ prototypePollution: false }))).status).toBe(200);
+        });
+
+        it('lets ordinary constructor and prototype fields through', () => {
+            const req = createRequest({
+                body: { constructor: 'Brunel', prototype: { name: 'Mk I' }, notes: 'proto type' },
+            });
+
+            expect(
+                detectMaliciousRequest(req, { ...allOff, prototypePollution: true }).isSuspicious,
+            ).toBe(false);
+        });
+
+        it('strips polluting keys from the request', () => {
+            const req = createRequest({
+                body: JSON.parse('{"name": "x", "user": {"__proto__": {"isAdmin": true}}}'),
+                query: { constructor: { prototype: { isAdmin: '1' } }, page: '2' },
+            });
+
+            expect(stripPrototypePollution(req, 10)).toEqual(['body.user.__proto__', 'query.constructor']);
+            expect(req.body).toEqual({ name: 'x', user: {} });
+            expect(req.query).toEqual({ page: '2' });
+        });
+
+        it('strips polluting keys before the route sees them, when asked to', async () => {
+            const app = express();
+            app.use(express.json());
+            app.use(createShield({ stripPrototypePollution: true }).middleware);
+            app.post('/', (req, res) => {
+                res.json({
+                    body: req.body,
+                    polluted: Object.getPrototypeOf(req.body.user) !== Object.prototype,
+                    strippedKeys: (req as ShieldAugmentedRequest).shield.strippedKeys,
+                });
+            });
+
+            const response = await request(app)
+                .post('/')
+                .set('content-type', 'application/json')
+                .send('{"name": "x", "user": {"__proto__": {"isAdmin": true}}}');
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({
+                body: { name: 'x', user: {} },
+                polluted: false,
+                strippedKeys: ['body.user.__proto__'],
+            });
+        });
+
+        it('still blocks polluting keys in the raw query string when stripping, as it is not cleaned', async () => {
+            const app = createApp(createShield({ stripPrototypePollution: true }));
+
+            const response = await request(app).get('/?__proto__[isAdmin]=1');
+            expect(response.status).toBe(403);
+            expect(response.body.detectedAttacks).toEqual(['Prototype Pollution']);
+        });
+    });
+});
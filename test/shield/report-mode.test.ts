@@ -0,0 +1,30 @@
+import request from 'supertest';
+import ZShield from '../../src/shield/lib';
+import { silenceConsole } from '../helpers';
+import { createApp, createShield } from './helpers';
+
+describe('shield report mode', () => {
+    silenceConsole('log');
+
+    it('lets a request it would have blocked through, saying why on the request', async () => {
+        const app = createApp(createShield({ mode: 'report' }));
+
+        const response = await request(app).get('/').query({ q: '<script>alert(1)</script>' });
+        expect(response.status).toBe(200);
+        expect(response.body).toMatchObject({
+            mode: 'report',
+            blocked: true,
+            reason: 'anomalyThreshold',
+            attackTypes: ['XSS'],
+        });
+    });
+
+    it('still adds to the suspicion score of the client, and scans it once it is blocked', async () => {
+        const app = createApp(new ZShield({ mode: 'report', suspicionThreshold: 2 }));
+        const send = async () => (await request(app).get('/').query({ q: "' UNION SELECT 1" })).body;
+
+        expect(await send()).toMatchObject({ blocked: false, clientScore: 1 });
+        expect(await send()).toMatchObject({ blocked: true, reason: 'suspicionThreshold', clientScore: 2 });
+        expect(await send()).toMatchObject({ blocked: true, reason: 'clientBlocked', clientScore: 3 });
+    });
+});
@@ -0,0 +1,48 @@
+import request from 'supertest';
+import { detectMaliciousRequest } from '../../src/shield/lib';
+import { silenceConsole } from '../helpers';
+import { allOff, createApp, createRequest, createShield } from './helpers';
+
+describe('shield detectors', () => {
+    silenceConsole('log');
+
+    describe('rfi', () => {
+        const requests = [
+            createRequest({ query: { page: 'http://evil.example/shell.txt?' } }),
+            createRequest({ body: { template: 'https://evil.example/payload.php%00' } }),
+            createRequest({ query: { file: 'phar://uploads/avatar.jpg' } }),
+            createRequest({ body: { include: '\\\\evil.example\\share\\x.php' } }),
+        ];
+
+        it.each(requests)('detects remote file inclusion when enabled (case %#)', (req) => {
+            const { isSuspicious, attackTypes } = detectMaliciousRequest(req, {
+                ...allOff,
+                rfi: true,
+            });
+
+            expect(isSuspicious).toBe(true);
+            expect(attackTypes).toEqual(['RFI']);
+        });
+
+        it('blocks remote file inclusion in the middleware, unless turned off', async () => {
+            const page = 'http://evil.example/shell.txt?';
+
+            const response = await request(createApp(createShield())).get('/').query({ page });
+            expect(response.status).toBe(403);
+            expect(response.body).toEqual({
+                error: 'Access denied due to suspicious activity.',
+                detectedAttacks: ['RFI'],
+            });
+            expect((await request(createApp(createShield({ rfi: false }))).get('/').query({ page })).status).toBe(200);
+        });
+
+        it('lets ordinary links through, even to scripts', () => {
+            const req = createRequest({
+                query: { next: 'https://blog.example.com/index.php' },
+                body: { website: 'https://example.com/about.aspx', avatar: 'https://cdn.example.com/me.png' },
+            });
+
+            expect(detectMaliciousRequest(req, { ...allOff, rfi: true }).isSuspicious).toBe(false);
+        });
+    });
+});
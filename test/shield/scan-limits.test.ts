@@ -0,0 +1,97 @@
+import { detectMaliciousRequest } from '../../src/shield/lib';
+import { silenceConsole } from '../helpers';
+import { allOff, createRequest } from './helpers';
+
+describe('shield scan limits', () => {
+    silenceConsole('log');
+
+    const nest = (depth: number, value: unknown): unknown =>
+        depth === 0 ? value : { a: nest(depth - 1, value) };
+
+    // maxScanTimeMs is only checked between fields, so no rule may take long on
+    // a single value, however it is crafted
+    it.each([
+        ['<script>', '<script>'],
+        ['unclosed calls', 'alert("'],
+        ['event handlers', 'ona'],
+        ['block comments', '/*a'],
+        ['newlines', '\n'],
+        ['encoded newlines', '%0d'],
+        ['command substitutions', '$('],
+        ['curl flags', 'curl -'],
+    ])('scans a long run of %s quickly', (_name, chunk) => {
+        const req = createRequest({ body: { comment: chunk.repeat(Math.ceil(8192 / chunk.length)).slice(0, 8192) } });
+
+        const allOn = Object.fromEntries(Object.keys(allOff).map((attack) => [attack, attack !== 'csrf']));
+
+        const start = performance.now();
+        detectMaliciousRequest(req, { ...allOn, scanLimits: { maxScanTimeMs: 60000 } });
+        expect(performance.now() - start).toBeLessThan(250);
+    });
+
+    it('reports nesting deeper than maxDepth, without scanning it', () => {
+        const req = createRequest({ body: nest(5, '<script>alert(1)</script>') });
+        const result = detectMaliciousRequest(req, { ...allOff, xss: true, scanLimits: { maxDepth: 3 } });
+
+        expect(result.attackTypes).toEqual(['Scan Limit Exceeded']);
+        expect(result.matchedRules).toEqual([
+            { id: 'limit-100', attackType: 'Scan Limit Exceeded', weight: 0, field: 'body.a.a.a' },
+        ]);
+    });
+
+    it('stops after maxKeys keys across the whole request', () => {
+        const req = createRequest({
+            query: { a: 'one', b: 'two' },
+            body: { c: 'three', d: '<script>alert(1)</script>' },
+        });
+        const { matchedRules } = detectMaliciousRequest(req, {
+            ...allOff,
+            xss: true,
+            scanLimits: { maxKeys: 3 },
+        });
+
+        expect(matchedRules.map((rule) => rule.id)).toEqual(['limit-110']);
+    });
+
+    it('scans the start of long strings when truncating, and leaves them out when skipping', () => {
+        const req = createRequest({ body: { comment: '<script>alert(1)</script>' + 'x'.repeat(100) } });
+        const scanLimits = { maxStringLength: 50 };
+
+        const truncated = detectMaliciousRequest(req, { ...allOff, xss: true, scanLimits });
+        const skipped = detectMaliciousRequest(req, { ...allOff, xss: true, scanLimits, limitAction: 'skip' });
+
+        expect(truncated.attackTypes).toEqual(['XSS', 'Scan Limit Exceeded']);
+        expect(skipped.attackTypes).toEqual(['Scan Limit Exceeded']);
+        expect(skipped.anomalyScore).toBe(0);
+    });
+
+    it('blocks requests over the limits when asked to', () => {
+        const req = createRequest({ body: { comment: 'x'.repeat(100) } });
+        const result = detectMaliciousRequest(req, {
+            ...allOff,
+            scanLimits: { maxStringLength: 50 },
+            limitAction: 'block',
+        });
+
+        expect(result.matchedRules).toEqual([
+            { id: 'limit-120', attackType: 'Scan Limit Exceeded', weight: 5, field: 'body.comment' },
+        ]);
+    });
+
+    it('stops matching once maxScanTimeMs has passed', () => {
+        let now = 0;
+        const spy = jest.spyOn(Date, 'now').mockImplementation(() => (now += 10));
+
+        const req = createRequest({ query: { q: "<script>alert(1)</script>' UNION SELECT 1" } });
+        const result = detectMaliciousRequest(req, {
+            ...allOff,
+            xss: true,
+            sqlInjection: true,
+            scanLimits: { maxScanTimeMs: 25 },
+        });
+        spy.mockRestore();
+
+        expect(result.attackTypes).toEqual(['XSS', 'Scan Limit Exceeded']);
+        expect(result.matchedRules.map((rule) => rule.id)).toEqual(['xss-100', 'limit-130']);
+    });
+});
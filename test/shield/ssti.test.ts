@@ -0,0 +1,51 @@
+import request from 'supertest';
+import { detectMaliciousRequest } from '../../src/shield/lib';
+import { silenceConsole } from '../helpers';
+import { allOff, createApp, createRequest, createShield } from './helpers';
+
+describe('shield detectors', () => {
+    silenceConsole('log');
+
+    describe('ssti', () => {
+        const payloads = [
+            '{{7*7}}',
+            '${7*7}',
+            '#{7*7}',
+            '<%= 7*7 %>',
+            "{{ ''.__class__.__mro__[1].__subclasses__() }}",
+            '{{config.items()}}',
+            "{{this.constructor.constructor('return process')()}}",
+            "${T(java.lang.Runtime).getRuntime().exec('id')}",
+            '<#assign ex="freemarker.template.utility.Execute"?new()>${ex("id")}',
+            '#set($x = $class.inspect("java.lang.Runtime"))',
+        ];
+
+        it.each(payloads)('detects %s when enabled', (payload) => {
+            const req = createRequest({ body: { snippet: payload } });
+            const { isSuspicious, attackTypes } = detectMaliciousRequest(req, { ...allOff, ssti: true });
+
+            expect(isSuspicious).toBe(true);
+            expect(attackTypes).toEqual(['SSTI']);
+        });
+
+        it('blocks template expressions in a JSON body, unless turned off', async () => {
+            const body = { snippet: "{{ ''.__class__.__mro__[1].__subclasses__() }}" };
+
+            const response = await request(createApp(createShield())).post('/').send(body);
+            expect(response.status).toBe(403);
+            expect(response.body.detectedAttacks).toEqual(['SSTI']);
+            expect((await request(createApp(createShield({ ssti: false }))).post('/').send(body)).status).toBe(200);
+        });
+
+        it('only flags plain template expressions at paranoia level 2', () => {
+            const req = createRequest({ body: { snippet: 'Hello {{ name }}, your total is $12 * 2' } });
+
+            expect(detectMaliciousRequest(req, { ...allOff, ssti: true }).isSuspicious).toBe(false);
+            expect(
+                detectMaliciousRequest(req, { ...allOff, ssti: true, paranoiaLevel: 2 }).matchedRules.map(
+                    (rule) => rule.id,
+                ),
+            ).toEqual(['ssti-160']);
+        });
+    });
+});
